@@ -0,0 +1,225 @@
+import React from 'react';
+import { Alert, Linking, PermissionsAndroid, Platform } from 'react-native';
+import { errorCodes, isErrorWithCode, pick } from '@react-native-documents/picker';
+import { FFmpegKit, ReturnCode } from 'ffmpeg-kit-react-native';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react-native';
+import App from '../App';
+import { httpError, malformed, MockBackend, slow, success } from './support/mockBackend';
+
+const pickedImage = { uri: 'file:///picked/smile.jpg', name: 'smile.jpg', type: 'image/jpeg', size: 2048 };
+const pickedAudio = { uri: 'file:///picked/hello.wav', name: 'hello.wav', type: 'audio/wav', size: 4096 };
+
+const mockPick = (...files: object[]) => jest.mocked(pick).mockResolvedValueOnce(files as never);
+
+describe('upload flow', () => {
+  let backend: MockBackend;
+
+  beforeEach(() => {
+    backend = new MockBackend().install();
+    jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    backend.restore();
+    jest.restoreAllMocks();
+    jest.mocked(pick).mockReset();
+    jest.mocked(isErrorWithCode).mockReturnValue(false);
+  });
+
+  test('uploads picked images to the face endpoint and shows the result', async () => {
+    backend.respond('predict-face', success('predict-face', 'happy', { happy: 0.9, sad: 0.1 }));
+    mockPick(pickedImage);
+    render(<App />);
+
+    fireEvent.press(await screen.findByText('Upload Images'));
+
+    expect(await screen.findByText('smile.jpg classified.')).toBeOnTheScreen();
+    expect(screen.getByText('Done')).toBeOnTheScreen();
+    expect(screen.getAllByText(/happy/).length).toBeGreaterThan(0);
+    expect(backend.requestsTo('predict-face')).toHaveLength(1);
+    expect(backend.requests[0].url).toMatch(/\/predict-face$/);
+    expect(pick).toHaveBeenCalledWith({ type: 'image/*', allowMultiSelection: true });
+  });
+
+  test('uploads picked audio to the audio endpoint', async () => {
+    backend.respond('predict-audio', success('predict-audio', 'angry'));
+    mockPick(pickedAudio);
+    render(<App />);
+
+    fireEvent.press(await screen.findByText('Upload Audio'));
+
+    expect(await screen.findByText('hello.wav classified.')).toBeOnTheScreen();
+    expect(screen.getAllByText(/angry/).length).toBeGreaterThan(0);
+    expect(backend.requestsTo('predict-audio')).toHaveLength(1);
+    expect(backend.requestsTo('predict-face')).toHaveLength(0);
+  });
+
+  test('shows the upload in progress while the backend is slow', async () => {
+    backend.respond('predict-face', slow('predict-face', 'surprised', 200));
+    mockPick(pickedImage);
+    render(<App />);
+
+    fireEvent.press(await screen.findByText('Upload Images'));
+
+    expect(await screen.findByText('Uploading')).toBeOnTheScreen();
+    expect(screen.getByText('Cancel current upload')).toBeOnTheScreen();
+    expect(await screen.findByText('smile.jpg classified.')).toBeOnTheScreen();
+    expect(screen.queryByText('Cancel current upload')).not.toBeOnTheScreen();
+  });
+
+  test('marks the file failed on an error response and succeeds on retry', async () => {
+    backend.respond('predict-face', httpError(422, 'no face'), success('predict-face', 'calm'));
+    mockPick(pickedImage);
+    render(<App />);
+
+    fireEvent.press(await screen.findByText('Upload Images'));
+
+    expect(await screen.findByText('Server returned 422 for predict-face')).toBeOnTheScreen();
+    expect(screen.getByText('Failed')).toBeOnTheScreen();
+
+    fireEvent.press(screen.getByText('Retry'));
+    expect(await screen.findByText('smile.jpg classified.')).toBeOnTheScreen();
+    expect(backend.requestsTo('predict-face')).toHaveLength(2);
+  });
+
+  test('reports a malformed response instead of showing a result', async () => {
+    backend.respond('predict-face', malformed());
+    mockPick(pickedImage);
+    render(<App />);
+
+    fireEvent.press(await screen.findByText('Upload Images'));
+
+    expect(await screen.findByText('Server sent an unreadable response for predict-face')).toBeOnTheScreen();
+    expect(screen.queryByText('Done')).not.toBeOnTheScreen();
+  });
+
+  test('stops the conversion and skips the upload when cancelled while converting', async () => {
+    const conversion = { cancel: jest.fn(async () => finish()), getReturnCode: async () => 'cancel' };
+    let finish = () => {};
+    jest.mocked(FFmpegKit.executeAsync).mockImplementationOnce(async (_command, onComplete) => {
+      finish = () => onComplete?.(conversion as never);
+      return conversion as never;
+    });
+    jest.mocked(ReturnCode.isCancel).mockReturnValueOnce(true);
+    mockPick({ uri: 'file:///picked/photo.heic', name: 'photo.heic', type: 'image/heic', size: 2048 });
+    render(<App />);
+
+    fireEvent.press(await screen.findByText('Upload Images'));
+    fireEvent.press(await screen.findByText('Cancel current upload'));
+
+    expect(await screen.findByText('photo.heic failed: Cancelled')).toBeOnTheScreen();
+    expect(conversion.cancel).toHaveBeenCalled();
+    expect(backend.requests).toHaveLength(0);
+  });
+
+  test('keeps the finished uploads after a trip to Settings', async () => {
+    backend.respond('predict-face', success('predict-face', 'happy'));
+    mockPick(pickedImage);
+    render(<App />);
+
+    fireEvent.press(await screen.findByText('Upload Images'));
+    expect(await screen.findByText('smile.jpg classified.')).toBeOnTheScreen();
+
+    fireEvent.press(screen.getByText('Settings'));
+    fireEvent.press((await screen.findAllByText('Done')).at(-1)!);
+
+    expect(screen.getByText('smile.jpg classified.')).toBeOnTheScreen();
+    expect(screen.getByText('Done')).toBeOnTheScreen();
+  });
+
+  test('does nothing when the picker is cancelled', async () => {
+    jest.mocked(pick).mockRejectedValueOnce({ code: errorCodes.OPERATION_CANCELED });
+    jest.mocked(isErrorWithCode).mockReturnValue(true);
+    render(<App />);
+
+    fireEvent.press(await screen.findByText('Upload Images'));
+
+    await waitFor(() => expect(pick).toHaveBeenCalled());
+    expect(Alert.alert).not.toHaveBeenCalled();
+    expect(backend.requests).toHaveLength(0);
+  });
+
+  describe('on Android', () => {
+    const answer = (result: string) =>
+      jest
+        .spyOn(PermissionsAndroid, 'requestMultiple')
+        .mockImplementation(
+          async permissions => Object.fromEntries(permissions.map(permission => [permission, result])) as never,
+        );
+
+    beforeEach(() => {
+      jest.replaceProperty(Platform, 'OS', 'android');
+      jest.spyOn(Platform, 'Version', 'get').mockReturnValue(33);
+    });
+
+    test('asks for the media permission before picking', async () => {
+      const request = answer(PermissionsAndroid.RESULTS.GRANTED);
+      backend.respond('predict-audio', success('predict-audio', 'happy'));
+      mockPick(pickedAudio);
+      render(<App />);
+
+      fireEvent.press(await screen.findByText('Upload Audio'));
+
+      expect(await screen.findByText('hello.wav classified.')).toBeOnTheScreen();
+      expect(request).toHaveBeenCalledWith([PermissionsAndroid.PERMISSIONS.READ_MEDIA_AUDIO]);
+    });
+
+    test('uses the storage permission before Android 13', async () => {
+      jest.spyOn(Platform, 'Version', 'get').mockReturnValue(30);
+      const request = answer(PermissionsAndroid.RESULTS.GRANTED);
+      mockPick(pickedImage);
+      render(<App />);
+
+      fireEvent.press(await screen.findByText('Upload Images'));
+
+      expect(await screen.findByText('smile.jpg classified.')).toBeOnTheScreen();
+      expect(request).toHaveBeenCalledWith([PermissionsAndroid.PERMISSIONS.READ_EXTERNAL_STORAGE]);
+    });
+
+    test('picks from the selected photos on Android 14 partial access', async () => {
+      jest.spyOn(Platform, 'Version', 'get').mockReturnValue(34);
+      const { READ_MEDIA_IMAGES, READ_MEDIA_VISUAL_USER_SELECTED } = PermissionsAndroid.PERMISSIONS;
+      const request = jest.spyOn(PermissionsAndroid, 'requestMultiple').mockResolvedValue({
+        [READ_MEDIA_IMAGES]: PermissionsAndroid.RESULTS.DENIED,
+        [READ_MEDIA_VISUAL_USER_SELECTED]: PermissionsAndroid.RESULTS.GRANTED,
+      } as never);
+      mockPick(pickedImage);
+      render(<App />);
+
+      fireEvent.press(await screen.findByText('Upload Images'));
+
+      expect(await screen.findByText('smile.jpg classified.')).toBeOnTheScreen();
+      expect(request).toHaveBeenCalledWith([READ_MEDIA_IMAGES, READ_MEDIA_VISUAL_USER_SELECTED]);
+    });
+
+    test('stops when the permission is denied', async () => {
+      answer(PermissionsAndroid.RESULTS.DENIED);
+      render(<App />);
+
+      fireEvent.press(await screen.findByText('Upload Images'));
+
+      await waitFor(() =>
+        expect(Alert.alert).toHaveBeenCalledWith('Permission Denied', 'Access to photos is required to select images.'),
+      );
+      expect(pick).not.toHaveBeenCalled();
+      expect(backend.requests).toHaveLength(0);
+    });
+
+    test('explains the permission before sending the user to the settings when it is blocked', async () => {
+      answer(PermissionsAndroid.RESULTS.NEVER_ASK_AGAIN);
+      render(<App />);
+
+      fireEvent.press(await screen.findByText('Upload Images'));
+
+      expect(await screen.findByText('Turned off in settings')).toBeOnTheScreen();
+      expect(screen.getByText('Files mode uploads the photos you pick for classification.')).toBeOnTheScreen();
+      expect(pick).not.toHaveBeenCalled();
+      expect(Linking.openSettings).not.toHaveBeenCalled();
+
+      fireEvent.press(screen.getByText('Open Settings'));
+      expect(Linking.openSettings).toHaveBeenCalled();
+      expect(screen.queryByText('Turned off in settings')).not.toBeOnTheScreen();
+    });
+  });
+});
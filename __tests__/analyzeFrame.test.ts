@@ -0,0 +1,41 @@
+import FaceDetection from '@react-native-ml-kit/face-detection';
+import { FFmpegKit, FFprobeKit } from 'ffmpeg-kit-react-native';
+import type { EmotionClient } from '../src/api/emotionClient';
+import { analyzeFrame } from '../src/faces/analyzeFrame';
+import { TempStorage } from '../src/storage/tempFiles';
+
+const prediction = { endpoint: 'predict_image' as const, label: 'happy', scores: [] };
+
+describe('analyzeFrame', () => {
+  const temp = new TempStorage('/cache/temp', Infinity).create('frames');
+  const client = { predictImage: jest.fn(async () => prediction), predictFace: jest.fn() };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const stream = { getType: () => 'video', getWidth: () => 640, getHeight: () => 480 };
+    jest.mocked(FFprobeKit.getMediaInformation).mockResolvedValue({
+      getMediaInformation: () => ({ getStreams: () => [stream] }),
+    } as never);
+    jest.mocked(FFmpegKit.executeAsync).mockImplementation(async (_command, onComplete) => {
+      const session = { getReturnCode: async () => 0 };
+      onComplete?.(session as never);
+      return session as never;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('classifies each face crop with the image model', async () => {
+    jest.mocked(FaceDetection.detect).mockResolvedValueOnce([
+      { frame: { left: 100, top: 80, width: 200, height: 200 } },
+    ] as never);
+
+    const frame = await analyzeFrame('/cache/temp/frame.jpg', client as unknown as EmotionClient, temp);
+    expect(frame.faces).toHaveLength(1);
+    expect(frame.faces[0].prediction).toBe(prediction);
+    expect(client.predictImage).toHaveBeenCalledWith(expect.objectContaining({ name: 'face.jpg' }), {});
+    expect(client.predictFace).not.toHaveBeenCalled();
+  });
+});
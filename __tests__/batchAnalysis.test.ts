@@ -0,0 +1,143 @@
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { FFprobeKit } from 'ffmpeg-kit-react-native';
+import { useBatchAnalysis } from '../src/hooks/useBatchAnalysis';
+import { planSegments, runBatch, segmentKey } from '../src/video/batchAnalysis';
+import { analyzeSegment, SegmentResult } from '../src/video/segments';
+
+jest.mock('../src/video/segments', () => ({
+  ...jest.requireActual('../src/video/segments'),
+  analyzeSegment: jest.fn(),
+}));
+
+const mockAnalyze = analyzeSegment as jest.MockedFunction<typeof analyzeSegment>;
+const result = { prediction: { endpoint: 'predict' as const, label: 'happy', scores: [] } };
+const clients = {} as Parameters<typeof analyzeSegment>[2];
+
+describe('planSegments', () => {
+  test('covers the whole duration with frames and clipped audio chunks', () => {
+    const segments = planSegments(5.5, { frameIntervalS: 2, audioChunkS: 2.5 });
+    expect(segments.map(segmentKey)).toEqual(['image@0', 'audio@0', 'image@2', 'audio@2.5', 'image@4', 'audio@5']);
+    expect(segments[segments.length - 1].duration).toBe(0.5);
+  });
+
+  test('skips modalities the file does not have', () => {
+    expect(planSegments(3, { hasAudio: false }).every(segment => segment.modality === 'image')).toBe(true);
+  });
+});
+
+describe('runBatch', () => {
+  const segments = planSegments(3, { frameIntervalS: 1, hasAudio: false });
+  const baseOptions = {
+    videoUri: 'file:///video.mp4',
+    segments,
+    clients,
+    onFailure: jest.fn(),
+    onProgress: jest.fn(),
+  };
+
+  test('stops when cancelled and resumes without repeating finished segments', async () => {
+    mockAnalyze.mockResolvedValue(result);
+    const completedKeys = new Set<string>();
+    let cancelled = false;
+    const onResult = jest.fn(() => {
+      cancelled = true;
+    });
+
+    const first = await runBatch({ ...baseOptions, completedKeys, onResult, isCancelled: () => cancelled });
+    expect(first).toBe('cancelled');
+    expect(onResult).toHaveBeenCalledTimes(1);
+
+    cancelled = false;
+    const resumed = jest.fn();
+    const second = await runBatch({ ...baseOptions, completedKeys, onResult: resumed, isCancelled: () => false });
+    expect(second).toBe('done');
+    expect(resumed.mock.calls.map(([segment]) => segment.start)).toEqual([1, 2]);
+    expect(completedKeys.size).toBe(3);
+  });
+
+  test('counts failures and leaves them for the next run', async () => {
+    mockAnalyze.mockRejectedValueOnce(new Error('boom')).mockResolvedValue(result);
+    const completedKeys = new Set<string>();
+    const onProgress = jest.fn();
+
+    await runBatch({ ...baseOptions, completedKeys, onProgress, onResult: jest.fn(), isCancelled: () => false });
+    expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ completed: 2, failed: 1, total: 3 }));
+    expect(completedKeys.has('image@0')).toBe(false);
+  });
+
+  test('drops the segment in flight when cancelled so a resume does it again', async () => {
+    let cancelled = false;
+    mockAnalyze.mockImplementationOnce(async () => {
+      cancelled = true;
+      return result;
+    });
+    const completedKeys = new Set<string>();
+    const onResult = jest.fn();
+
+    await expect(runBatch({ ...baseOptions, completedKeys, onResult, isCancelled: () => cancelled })).resolves.toBe(
+      'cancelled',
+    );
+    expect(onResult).not.toHaveBeenCalled();
+    expect(completedKeys.size).toBe(0);
+  });
+});
+
+describe('useBatchAnalysis', () => {
+  beforeEach(() => {
+    mockAnalyze.mockReset();
+  });
+
+  // A probe that only finishes when the test says so, and records whether it was cancelled
+  const pendingProbe = () => {
+    const session = {
+      cancel: jest.fn(async () => finish()),
+      getMediaInformation: () => ({ getDuration: () => '2', getStreams: () => [{ getType: () => 'video' }] }),
+      getLogsAsString: async () => '',
+    };
+    let finish = () => {};
+    jest.mocked(FFprobeKit.getMediaInformationAsync).mockImplementationOnce(async (_uri, onComplete) => {
+      finish = () => onComplete?.(session as never);
+      return session as never;
+    });
+    return { session, finish: () => finish() };
+  };
+
+  const options = (videoUri: string, onResult = jest.fn()) => ({ videoUri, clients, onResult });
+
+  test('cancels the probe while it is running', async () => {
+    const probe = pendingProbe();
+    const { result: hook } = renderHook(() => useBatchAnalysis(options('file:///a.mp4')));
+
+    act(() => {
+      hook.current.run();
+    });
+    await waitFor(() => expect(hook.current.phase).toBe('probing'));
+    act(() => hook.current.cancel());
+
+    await waitFor(() => expect(hook.current.phase).toBe('cancelled'));
+    expect(probe.session.cancel).toHaveBeenCalled();
+    expect(mockAnalyze).not.toHaveBeenCalled();
+  });
+
+  test('ignores the segment in flight once a different video is picked', async () => {
+    let release = (_value: SegmentResult) => {};
+    mockAnalyze.mockImplementationOnce(() => new Promise(resolve => (release = resolve)));
+    const probe = pendingProbe();
+    const onResult = jest.fn();
+    const { result: hook, rerender } = renderHook(({ uri }: { uri: string }) => useBatchAnalysis(options(uri, onResult)), {
+      initialProps: { uri: 'file:///a.mp4' },
+    });
+
+    act(() => {
+      hook.current.run();
+    });
+    probe.finish();
+    await waitFor(() => expect(mockAnalyze).toHaveBeenCalled());
+    rerender({ uri: 'file:///b.mp4' });
+    await act(async () => release(result));
+
+    expect(onResult).not.toHaveBeenCalled();
+    expect(hook.current.phase).toBe('idle');
+    expect(hook.current.progress).toBeNull();
+  });
+});
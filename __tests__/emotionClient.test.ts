@@ -0,0 +1,149 @@
+import { FileSystem } from 'react-native-file-access';
+import { createEmotionClient } from '../src/api/emotionClient';
+import { EmotionApiError } from '../src/api/errors';
+
+const file = { uri: 'file:///tmp/a.jpg', type: 'image/jpeg', name: 'a.jpg' };
+
+type Reply = { status: number; body: string } | 'error' | 'timeout' | 'hang';
+
+// Just enough of XMLHttpRequest for the client: answers each send with the next queued reply
+class FakeXhr {
+  static replies: Reply[] = [];
+  static last: FakeXhr;
+  url = '';
+  status = 0;
+  responseText = '';
+  timeout = 0;
+  upload: { onprogress?: (event: { loaded: number; total: number; lengthComputable: boolean }) => void } = {};
+  onload?: () => void;
+  onerror?: () => void;
+  ontimeout?: () => void;
+  onabort?: () => void;
+
+  open(_method: string, url: string) {
+    this.url = url;
+    FakeXhr.last = this;
+  }
+  setRequestHeader() {}
+  abort() {
+    this.onabort?.();
+  }
+  send() {
+    const reply = FakeXhr.replies.shift() ?? 'hang';
+    if (reply === 'hang') {
+      return;
+    }
+    setTimeout(() => {
+      if (reply === 'error') {
+        this.onerror?.();
+      } else if (reply === 'timeout') {
+        this.ontimeout?.();
+      } else {
+        this.upload.onprogress?.({ loaded: 10, total: 10, lengthComputable: true });
+        this.status = reply.status;
+        this.responseText = reply.body;
+        this.onload?.();
+      }
+    });
+  }
+}
+
+const mockReply = (status: number, body: string) => {
+  FakeXhr.replies.push({ status, body });
+};
+
+const rejection = (promise: Promise<unknown>) =>
+  promise.then(
+    () => {
+      throw new Error('expected rejection');
+    },
+    error => error as EmotionApiError,
+  );
+
+describe('emotion client', () => {
+  const client = createEmotionClient('http://backend:8000/', { timeoutMs: 5000 });
+
+  beforeEach(() => {
+    FakeXhr.replies = [];
+    global.XMLHttpRequest = FakeXhr as unknown as typeof XMLHttpRequest;
+  });
+
+  test('posts to the endpoint and reads its label key', async () => {
+    mockReply(200, JSON.stringify({ emotion: 'happy' }));
+    await expect(client.predictFace(file)).resolves.toMatchObject({ endpoint: 'predict-face', label: 'happy', scores: [] });
+    expect(FakeXhr.last.url).toBe('http://backend:8000/predict-face');
+    expect(FakeXhr.last.timeout).toBe(5000);
+
+    mockReply(200, JSON.stringify({ classification: 'sad' }));
+    await expect(client.predictAudioChunk(file)).resolves.toMatchObject({ endpoint: 'predict', label: 'sad' });
+  });
+
+  test('writes in-memory contents to a temp file only for the request', async () => {
+    mockReply(200, JSON.stringify({ classification: 'calm' }));
+    const bytes = Uint8Array.from([1, 2, 3]);
+
+    await client.predictAudioChunk({ bytes, type: 'audio/wav', name: 'audio_chunk.wav' });
+    const [[path, contents]] = jest.mocked(FileSystem.writeFile).mock.calls;
+    expect(path).toMatch(/^\/cache\/temp\/http-upload-.*audio_chunk\.wav$/);
+    expect(contents).toBe('AQID');
+    expect(FileSystem.unlink).toHaveBeenCalledWith(path.slice(0, path.lastIndexOf('/')));
+
+    jest.mocked(FileSystem.writeFile).mockClear();
+    mockReply(200, JSON.stringify({ classification: 'calm' }));
+    await client.predictAudioChunk({ bytes, uri: 'file:///cache/chunk.wav', type: 'audio/wav', name: 'chunk.wav' });
+    expect(FileSystem.writeFile).not.toHaveBeenCalled();
+  });
+
+  test('ranks the score distribution and derives confidence', async () => {
+    mockReply(200, JSON.stringify({ emotion: 'happy', scores: { sad: 0.2, happy: 0.7, angry: 0.1 } }));
+    const prediction = await client.predictFace(file);
+    expect(prediction.scores.map(entry => entry.label)).toEqual(['happy', 'sad', 'angry']);
+    expect(prediction.confidence).toBe(0.7);
+
+    mockReply(200, JSON.stringify({ classification: 'calm', probabilities: [{ label: 'calm', score: 0.4 }] }));
+    expect((await client.predictAudioChunk(file)).confidence).toBe(0.4);
+
+    mockReply(200, JSON.stringify({ emotion: 'happy', scores: { happy: 'high' } }));
+    expect((await rejection(client.predictFace(file))).kind).toBe('validation');
+  });
+
+  test('reports non-2xx responses as http errors', async () => {
+    mockReply(500, '<html>Internal Server Error</html>');
+    const error = await rejection(client.predictImage(file));
+    expect(error).toBeInstanceOf(EmotionApiError);
+    expect(error.kind).toBe('http');
+    expect(error.status).toBe(500);
+    expect(error.body).toContain('Internal Server Error');
+  });
+
+  test('reports malformed and unexpected bodies', async () => {
+    mockReply(200, 'not json');
+    expect((await rejection(client.predictAudio(file))).kind).toBe('parse');
+
+    mockReply(200, JSON.stringify({ classification: 'calm' }));
+    expect((await rejection(client.predictAudio(file))).kind).toBe('validation');
+  });
+
+  test('reports network failures and timeouts', async () => {
+    FakeXhr.replies.push('error');
+    expect((await rejection(client.predictFace(file))).kind).toBe('network');
+
+    FakeXhr.replies.push('timeout');
+    const error = await rejection(client.predictFace(file));
+    expect(error.kind).toBe('timeout');
+    expect(error.message).toBe('No response within 5s');
+  });
+
+  test('reports upload progress and can be cancelled', async () => {
+    const onProgress = jest.fn();
+    mockReply(200, JSON.stringify({ emotion: 'happy' }));
+    await client.predictFace(file, { onProgress });
+    expect(onProgress).toHaveBeenCalledWith({ sent: 10, total: 10 });
+
+    const controller = new AbortController();
+    const pending = client.predictFace(file, { signal: controller.signal });
+    controller.abort();
+    expect((await rejection(pending)).kind).toBe('cancelled');
+    expect((await rejection(client.predictFace(file, { signal: controller.signal }))).kind).toBe('cancelled');
+  });
+});
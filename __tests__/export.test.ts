@@ -0,0 +1,60 @@
+import { DEFAULT_SMOOTHING_OPTIONS, SmoothingOptions } from '../src/analysis/smoothing';
+import { sessionToCsv, sessionToJson, sessionToWebVtt } from '../src/history/export';
+import type { AnalysisSession } from '../src/history/sessions';
+
+const prediction = (label: string, scores: Record<string, number>) => ({
+  endpoint: 'predict-face' as const,
+  label,
+  scores: Object.entries(scores).map(([name, score]) => ({ label: name, score })),
+  confidence: scores[label],
+});
+
+const session: AnalysisSession = {
+  id: 'video-1',
+  mode: 'video',
+  sourceName: 'My clip, take 2.mp4',
+  startedAt: 0,
+  updatedAt: 0,
+  results: [
+    { modality: 'image', recordedAt: 0, start: 2, duration: 1, prediction: prediction('sad', { sad: 0.6, happy: 0.4 }) },
+    { modality: 'image', recordedAt: 0, start: 0, duration: 2.5, prediction: prediction('happy', { happy: 0.9 }) },
+    { modality: 'audio', recordedAt: 0, prediction: prediction('calm', { calm: 0.5 }) },
+  ],
+};
+
+const raw: SmoothingOptions = { ...DEFAULT_SMOOTHING_OPTIONS, strategy: 'none' };
+
+describe('session export', () => {
+  test('writes one csv row per result with a column per class', () => {
+    const lines = sessionToCsv(session, raw).contents.trim().split('\r\n');
+    expect(lines[0]).toBe('modality,recorded_at,start_s,duration_s,label,confidence,smoothed_label,smoothed_confidence,score_calm,score_happy,score_sad');
+    expect(lines[1]).toBe('image,1970-01-01T00:00:00.000Z,2,1,sad,0.6,sad,0.6,,0.4,0.6');
+    expect(lines).toHaveLength(4);
+    expect(sessionToCsv(session, raw).name).toBe('My_clip_take_2_0.csv');
+  });
+
+  test('round-trips the session through json', () => {
+    const parsed = JSON.parse(sessionToJson(session, raw).contents);
+    expect(parsed.results).toHaveLength(3);
+    expect(parsed.startedAtIso).toBe('1970-01-01T00:00:00.000Z');
+  });
+
+  test('builds an ordered subtitle track for timed results only', () => {
+    expect(sessionToWebVtt(session, 'image', raw).contents).toBe(
+      'WEBVTT\n\n1\n00:00:00.000 --> 00:00:02.000\nhappy (90%)\n\n2\n00:00:02.000 --> 00:00:03.000\nsad (60%)\n',
+    );
+    expect(sessionToWebVtt(session, 'audio', raw).contents).toBe('WEBVTT\n');
+  });
+
+  test('smooths results in media order and keeps the raw values', () => {
+    const ema: SmoothingOptions = { ...DEFAULT_SMOOTHING_OPTIONS, strategy: 'ema', alpha: 0.5 };
+    const lines = sessionToCsv(session, ema).contents.trim().split('\r\n');
+    // The sad frame at 2s follows the happy one at 0s, so the average still favours happy
+    expect(lines[1]).toBe('image,1970-01-01T00:00:00.000Z,2,1,sad,0.6,happy,0.65,,0.4,0.6');
+
+    const parsed = JSON.parse(sessionToJson(session, ema).contents);
+    expect(parsed.results[0].prediction.label).toBe('sad');
+    expect(parsed.results[0].smoothed.label).toBe('happy');
+    expect(sessionToWebVtt(session, 'image', ema).contents).toContain('\nhappy (65%)\n');
+  });
+});
@@ -0,0 +1,59 @@
+import { cropRect, fitFrame, insertFaceFrame, mirrorBox, normalizeBox, rankFaces } from '../src/faces/faceBoxes';
+
+const image = { width: 1000, height: 500 };
+
+describe('face boxes', () => {
+  test('normalizes detector pixels and clips them to the frame', () => {
+    expect(normalizeBox({ left: 100, top: 50, width: 200, height: 100 }, image)).toEqual({
+      x: 0.1,
+      y: 0.1,
+      width: expect.closeTo(0.2),
+      height: expect.closeTo(0.2),
+    });
+    const clipped = normalizeBox({ left: -50, top: 450, width: 150, height: 100 }, image);
+    expect(clipped).toEqual({ x: 0, y: 0.9, width: 0.1, height: expect.closeTo(0.1) });
+  });
+
+  test('mirrors boxes for the front camera preview', () => {
+    const box = normalizeBox({ left: 100, top: 50, width: 200, height: 100 }, image);
+    expect(mirrorBox(box)).toEqual({ ...box, x: expect.closeTo(0.7) });
+    expect(mirrorBox(mirrorBox(box)).x).toBeCloseTo(box.x);
+  });
+
+  test('keeps the biggest faces and drops tiny ones', () => {
+    const small = { x: 0, y: 0, width: 0.05, height: 0.05 };
+    const medium = { x: 0.5, y: 0, width: 0.1, height: 0.1 };
+    const large = { x: 0.2, y: 0.2, width: 0.3, height: 0.3 };
+    expect(rankFaces([small, medium, large])).toEqual([large, medium]);
+  });
+
+  test('crops with a margin, inside the image and with even sizes', () => {
+    expect(cropRect({ x: 0.1, y: 0.1, width: 0.2, height: 0.2 }, image, 0.25)).toEqual({
+      x: 50,
+      y: 25,
+      width: 300,
+      height: 150,
+    });
+    const edge = cropRect({ x: 0.85, y: 0.7, width: 0.15, height: 0.3 }, { width: 1001, height: 501 }, 0.2);
+    expect(edge.x + edge.width).toBeLessThanOrEqual(1001);
+    expect(edge.y + edge.height).toBeLessThanOrEqual(501);
+    expect(edge.width % 2).toBe(0);
+    expect(edge.height % 2).toBe(0);
+  });
+
+  test('maps frames into letterboxed and cropped previews', () => {
+    expect(fitFrame({ width: 200, height: 200 }, image, 'contain')).toEqual({ x: 0, y: 50, width: 200, height: 100 });
+    expect(fitFrame({ width: 200, height: 200 }, image, 'cover')).toEqual({ x: -100, y: 0, width: 400, height: 200 });
+  });
+
+  test('keeps timed frames ordered and replaces repeats', () => {
+    const frame = (faces: number) => ({ width: 1, height: 1, faces: Array(faces).fill(null) });
+    let frames = insertFaceFrame([], { start: 2, duration: 1, frame: frame(1) });
+    frames = insertFaceFrame(frames, { start: 0, duration: 1, frame: frame(0) });
+    frames = insertFaceFrame(frames, { start: 2, duration: 1, frame: frame(2) });
+    expect(frames.map(item => [item.start, item.frame.faces.length])).toEqual([
+      [0, 0],
+      [2, 2],
+    ]);
+  });
+});
@@ -0,0 +1,75 @@
+import { canonicalLabel, fusePredictions, fuseTimeline } from '../src/analysis/fusion';
+import type { EmotionPrediction } from '../src/api/emotionClient';
+import type { TimedPrediction } from '../src/analysis/timeline';
+
+const prediction = (label: string, scores: Record<string, number> = {}): EmotionPrediction => ({
+  endpoint: 'predict-face',
+  label,
+  scores: Object.entries(scores)
+    .map(([name, score]) => ({ label: name, score }))
+    .sort((a, b) => b.score - a.score),
+  confidence: scores[label],
+});
+
+const timed = (modality: 'image' | 'audio', start: number, duration: number, label: string): TimedPrediction => ({
+  modality,
+  start,
+  duration,
+  prediction: prediction(label),
+});
+
+describe('fusion', () => {
+  test('averages both distributions with the configured face weight', () => {
+    const face = prediction('happy', { happy: 0.6, sad: 0.4 });
+    const voice = prediction('sad', { sad: 0.9, happy: 0.1 });
+
+    const even = fusePredictions(face, voice, { strategy: 'weighted-average', faceWeight: 0.5, maxGapS: 1 });
+    expect(even?.label).toBe('sad');
+    expect(even?.confidence).toBeCloseTo(0.65);
+    expect(even?.agreement).toBe('disagree');
+
+    const faceHeavy = fusePredictions(face, voice, { strategy: 'weighted-average', faceWeight: 0.9, maxGapS: 1 });
+    expect(faceHeavy?.label).toBe('happy');
+  });
+
+  test('max-confidence keeps the surer side', () => {
+    const face = prediction('happy', { happy: 0.55, sad: 0.45 });
+    const voice = prediction('angry', { angry: 0.8, calm: 0.2 });
+    const fused = fusePredictions(face, voice, { strategy: 'max-confidence', faceWeight: 0.5, maxGapS: 1 });
+    expect(fused?.label).toBe('angry');
+    expect(fused?.scores).toEqual([
+      { label: 'angry', score: 0.8 },
+      { label: 'calm', score: 0.2 },
+    ]);
+  });
+
+  test('treats aliases as the same emotion and label-only results as certain', () => {
+    expect(canonicalLabel(' Happiness ')).toBe('happy');
+    const fused = fusePredictions(prediction('happiness'), prediction('happy', { happy: 0.7, sad: 0.3 }));
+    expect(fused?.agreement).toBe('agree');
+    expect(fused?.label).toBe('happy');
+    expect(fused?.confidence).toBeCloseTo(0.85);
+  });
+
+  test('falls back to whichever side is present', () => {
+    expect(fusePredictions(null, null)).toBeNull();
+    expect(fusePredictions(null, prediction('sad'))).toMatchObject({ label: 'sad', agreement: 'single', confidence: 1 });
+  });
+
+  test('pairs frames with the voice window covering them', () => {
+    const segments = fuseTimeline([
+      timed('image', 0, 1, 'happy'),
+      timed('image', 1, 1, 'sad'),
+      timed('audio', 0, 2.5, 'happy'),
+      timed('audio', 10, 2.5, 'calm'),
+      timed('image', 5, 1, 'angry'),
+    ]);
+    expect(segments.map(segment => [segment.start, segment.fused.agreement])).toEqual([
+      [0, 'agree'],
+      [1, 'disagree'],
+      [5, 'single'],
+      [10, 'single'],
+    ]);
+    expect(segments[3].fused.voice?.label).toBe('calm');
+  });
+});
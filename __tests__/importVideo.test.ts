@@ -0,0 +1,93 @@
+import { FFmpegKit } from 'ffmpeg-kit-react-native';
+import { FileStat, FileSystem } from 'react-native-file-access';
+import { TempStorage } from '../src/storage/tempFiles';
+import { MediaExtractionError } from '../src/video/ffmpeg';
+import { importVideo, VideoTooLargeError } from '../src/video/importVideo';
+
+const fs = jest.mocked(FileSystem);
+
+const MB = 1024 * 1024;
+const SOURCE = 'content://media/external/video/42';
+
+describe('importVideo', () => {
+  const temp = new TempStorage('/cache/temp', Infinity).create('video');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.mocked(FFmpegKit.executeAsync).mockImplementation(async (_command, onComplete) => {
+      const session = { getReturnCode: async () => 0 };
+      onComplete?.(session as never);
+      return session as never;
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('copies natively without statting the source and reports progress from the copy', async () => {
+    jest.useFakeTimers();
+    let finish = () => {};
+    fs.cp.mockImplementationOnce(() => new Promise<void>(resolve => (finish = resolve)));
+    fs.stat.mockResolvedValueOnce({ size: 25 * MB } as FileStat);
+    const progress: number[] = [];
+
+    const importing = importVideo(SOURCE, temp, { maxBytes: 500 * MB, size: 100 * MB, onProgress: f => progress.push(f) });
+    await jest.advanceTimersByTimeAsync(250);
+    finish();
+
+    const uri = await importing;
+    expect(uri.startsWith(`file://${temp.dir}/`)).toBe(true);
+    expect(fs.cp).toHaveBeenCalledWith(SOURCE, uri.replace('file://', ''));
+    expect(fs.stat).not.toHaveBeenCalledWith(SOURCE);
+    expect(fs.readFile).not.toHaveBeenCalled();
+    expect(progress).toEqual([0.25, 1]);
+  });
+
+  test('refuses a video over the limit before copying anything', async () => {
+    fs.stat.mockResolvedValueOnce({ size: 900 * MB } as FileStat);
+
+    await expect(importVideo(SOURCE, temp, { maxBytes: 500 * MB })).rejects.toBeInstanceOf(VideoTooLargeError);
+    expect(fs.stat).toHaveBeenCalledWith(SOURCE);
+    expect(fs.cp).not.toHaveBeenCalled();
+    expect(FFmpegKit.executeAsync).not.toHaveBeenCalled();
+  });
+
+  test('copies a video of unknown size with FFmpeg stopped at the limit', async () => {
+    fs.stat.mockRejectedValueOnce(new Error('unsupported')).mockResolvedValueOnce({ size: 80 * MB } as FileStat);
+
+    const uri = await importVideo(SOURCE, temp, { maxBytes: 500 * MB });
+    expect(fs.cp).not.toHaveBeenCalled();
+    const [command] = jest.mocked(FFmpegKit.executeAsync).mock.calls[0];
+    expect(command).toContain(`-fs ${500 * MB}`);
+    expect(command).toContain(`"${uri.replace('file://', '')}"`);
+  });
+
+  test('removes a copy of unknown size that reached the limit', async () => {
+    fs.stat.mockRejectedValueOnce(new Error('unsupported')).mockResolvedValueOnce({ size: 500 * MB } as FileStat);
+
+    const error = await importVideo(SOURCE, temp, { maxBytes: 500 * MB }).catch(e => e);
+    expect(error).toBeInstanceOf(VideoTooLargeError);
+    expect(error.message).toBe('Video is over the 500 MB import limit');
+    expect(fs.unlink).toHaveBeenCalledWith(expect.stringMatching(/input\.mp4$/));
+  });
+
+  test('reports a copy of unknown size that cannot be read back as a failed copy, not a large video', async () => {
+    fs.stat.mockRejectedValueOnce(new Error('unsupported')).mockRejectedValueOnce(new Error('no such file'));
+
+    const error = await importVideo(SOURCE, temp, { maxBytes: 500 * MB }).catch(e => e);
+    expect(error).toBeInstanceOf(MediaExtractionError);
+    expect(error).not.toBeInstanceOf(VideoTooLargeError);
+    expect(fs.unlink).toHaveBeenCalledWith(expect.stringMatching(/input\.mp4$/));
+  });
+
+  test('removes a partial copy when the copy fails', async () => {
+    fs.cp.mockRejectedValueOnce(new Error('provider went away'));
+
+    await expect(importVideo(SOURCE, temp, { maxBytes: 500 * MB, size: 10 * MB })).rejects.toThrow('provider went away');
+    const [, target] = fs.cp.mock.calls[0];
+    expect(fs.unlink).toHaveBeenCalledWith(target);
+  });
+});
@@ -0,0 +1,25 @@
+import { backendAccepts, needsDownscale, resolveMediaType, withExtension } from '../src/upload/mediaTypes';
+
+describe('upload media types', () => {
+  test('prefers the picker type and falls back to the extension', () => {
+    expect(resolveMediaType('photo.jpg', 'image/png')).toBe('image/png');
+    expect(resolveMediaType('IMG_0001.HEIC', null)).toBe('image/heic');
+    expect(resolveMediaType('voice.m4a', 'application/octet-stream')).toBe('audio/mp4');
+    expect(resolveMediaType('noextension', null)).toBe('application/octet-stream');
+  });
+
+  test('converts anything the backend does not decode', () => {
+    expect(backendAccepts('image', 'image/png')).toBe(true);
+    expect(backendAccepts('image', 'image/heic')).toBe(false);
+    expect(backendAccepts('audio', 'audio/wav')).toBe(true);
+    expect(backendAccepts('audio', 'audio/mpeg')).toBe(false);
+    expect(withExtension('song.final.mp3', 'wav')).toBe('song.final.wav');
+  });
+
+  test('downscales large or heavy images', () => {
+    expect(needsDownscale({ width: 4032, height: 3024 }, 500_000)).toBe(true);
+    expect(needsDownscale({ width: 640, height: 480 }, 8_000_000)).toBe(true);
+    expect(needsDownscale({ width: 640, height: 480 }, null)).toBe(false);
+    expect(needsDownscale(null, null)).toBe(false);
+  });
+});
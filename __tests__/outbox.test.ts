@@ -0,0 +1,75 @@
+import {
+  normalizeOutbox,
+  OutboxEntry,
+  OutboxRequest,
+  requestBaseUrl,
+  requestEndpoint,
+  waitingBackends,
+} from '../src/outbox/outbox';
+import type { BackendProfile } from '../src/settings/settings';
+
+const profile: BackendProfile = {
+  id: 'split',
+  name: 'Split',
+  imageBaseUrl: 'http://faces.local:8000',
+  audioBaseUrl: 'http://voices.local:8001',
+};
+
+const entry = (id: string, request: OutboxRequest): OutboxEntry => ({
+  id,
+  createdAt: 0,
+  session: { id: 'session', mode: 'upload', sourceName: 'Test', startedAt: 0 },
+  request,
+  attempts: 0,
+});
+
+const file = { uri: 'file:///documents/outbox/x', type: 'audio/wav', name: 'x.wav' };
+const audioFile = entry('audio-file', { kind: 'file', modality: 'audio', file });
+const imageSegment = entry('image-segment', {
+  kind: 'segment',
+  segment: { modality: 'image', start: 2, duration: 1 },
+  file: { uri: 'file:///documents/outbox/y.jpg', type: 'image/jpeg', name: 'y.jpg' },
+});
+const audioSegment = entry('audio-segment', {
+  kind: 'segment',
+  segment: { modality: 'audio', start: 0, duration: 2 },
+  file: { uri: 'file:///documents/outbox/z.wav', type: 'audio/wav', name: 'z.wav' },
+});
+
+describe('outbox backends', () => {
+  test('sends each request to the backend of its modality', () => {
+    expect(requestBaseUrl(audioFile.request, profile)).toBe(profile.audioBaseUrl);
+    expect(requestBaseUrl(imageSegment.request, profile)).toBe(profile.imageBaseUrl);
+    expect(requestBaseUrl(audioSegment.request, profile)).toBe(profile.audioBaseUrl);
+  });
+
+  test('polls the route each request is sent to', () => {
+    expect(requestEndpoint(audioFile.request)).toBe('predict-audio');
+    expect(requestEndpoint(imageSegment.request)).toBe('predict_image');
+    expect(requestEndpoint(audioSegment.request)).toBe('predict');
+  });
+
+  test('lists every distinct backend with queued requests once', () => {
+    expect(waitingBackends([audioFile, imageSegment, audioSegment], profile)).toEqual([
+      { baseUrl: profile.imageBaseUrl, endpoint: 'predict_image' },
+      { baseUrl: profile.audioBaseUrl, endpoint: 'predict-audio' },
+    ]);
+    expect(waitingBackends([audioSegment], profile)).toEqual([
+      { baseUrl: profile.audioBaseUrl, endpoint: 'predict' },
+    ]);
+  });
+
+  test('polls a shared backend once when both models live on it', () => {
+    const shared = { ...profile, audioBaseUrl: profile.imageBaseUrl };
+    expect(waitingBackends([audioFile, imageSegment], shared)).toEqual([
+      { baseUrl: profile.imageBaseUrl, endpoint: 'predict-audio' },
+    ]);
+  });
+});
+
+describe('normalizeOutbox', () => {
+  test('drops segments queued by path to a video copy that no longer exists', () => {
+    const old = { ...imageSegment, request: { kind: 'segment', videoUri: 'file:///cache/temp/video/input.mp4' } };
+    expect(normalizeOutbox([audioFile, old, audioSegment])).toEqual([audioFile, audioSegment]);
+  });
+});
@@ -0,0 +1,84 @@
+import { PermissionsAndroid, Platform } from 'react-native';
+import { Camera } from 'react-native-vision-camera';
+import {
+  androidPermissionsFor,
+  androidState,
+  checkPermission,
+  iosState,
+  requestPermission,
+} from '../src/permissions/permissions';
+
+const { PERMISSIONS, RESULTS } = PermissionsAndroid;
+
+describe('permissions', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('maps media capabilities to the permissions of each Android version', () => {
+    expect(androidPermissionsFor('images', 30)).toEqual([PERMISSIONS.READ_EXTERNAL_STORAGE]);
+    expect(androidPermissionsFor('images', 33)).toEqual([PERMISSIONS.READ_MEDIA_IMAGES]);
+    expect(androidPermissionsFor('images', 34)).toEqual([
+      PERMISSIONS.READ_MEDIA_IMAGES,
+      PERMISSIONS.READ_MEDIA_VISUAL_USER_SELECTED,
+    ]);
+    expect(androidPermissionsFor('video', 35)).toEqual([
+      PERMISSIONS.READ_MEDIA_VIDEO,
+      PERMISSIONS.READ_MEDIA_VISUAL_USER_SELECTED,
+    ]);
+    expect(androidPermissionsFor('audio', 34)).toEqual([PERMISSIONS.READ_MEDIA_AUDIO]);
+    expect(androidPermissionsFor('audio', 29)).toEqual([PERMISSIONS.READ_EXTERNAL_STORAGE]);
+    expect(androidPermissionsFor('camera', 24)).toEqual([PERMISSIONS.CAMERA]);
+    expect(androidPermissionsFor('microphone', 35)).toEqual([PERMISSIONS.RECORD_AUDIO]);
+  });
+
+  test('folds Android results into granted, limited, denied or blocked', () => {
+    const photos = androidPermissionsFor('images', 34);
+    const [full, partial] = photos;
+    expect(androidState(photos, { [full]: RESULTS.GRANTED, [partial]: RESULTS.GRANTED })).toBe('granted');
+    expect(androidState(photos, { [full]: RESULTS.DENIED, [partial]: RESULTS.GRANTED })).toBe('limited');
+    expect(androidState(photos, { [full]: RESULTS.DENIED, [partial]: RESULTS.DENIED })).toBe('denied');
+    expect(androidState(photos, { [full]: RESULTS.NEVER_ASK_AGAIN, [partial]: RESULTS.DENIED })).toBe('blocked');
+    expect(androidState(photos, { [full]: RESULTS.NEVER_ASK_AGAIN, [partial]: RESULTS.GRANTED })).toBe('limited');
+  });
+
+  test('treats an iOS refusal as blocked since iOS never asks twice', () => {
+    expect(iosState('granted')).toBe('granted');
+    expect(iosState('not-determined')).toBe('denied');
+    expect(iosState('denied')).toBe('blocked');
+    expect(iosState('restricted')).toBe('blocked');
+  });
+
+  test('uses the camera library on iOS and needs nothing for picked files', async () => {
+    jest.mocked(Camera.getMicrophonePermissionStatus).mockReturnValueOnce('denied');
+    jest.mocked(Camera.requestCameraPermission).mockResolvedValueOnce('granted');
+
+    await expect(checkPermission('microphone')).resolves.toBe('blocked');
+    await expect(requestPermission('camera')).resolves.toBe('granted');
+    await expect(requestPermission('video')).resolves.toBe('granted');
+  });
+
+  describe('on Android', () => {
+    beforeEach(() => {
+      jest.replaceProperty(Platform, 'OS', 'android');
+      jest.spyOn(Platform, 'Version', 'get').mockReturnValue(34);
+    });
+
+    test('checks without prompting, including partial access', async () => {
+      const check = jest
+        .spyOn(PermissionsAndroid, 'check')
+        .mockImplementation(async permission => permission === PERMISSIONS.READ_MEDIA_VISUAL_USER_SELECTED);
+
+      await expect(checkPermission('images')).resolves.toBe('limited');
+      await expect(checkPermission('camera')).resolves.toBe('denied');
+      expect(check).toHaveBeenCalledWith(PERMISSIONS.READ_MEDIA_IMAGES);
+    });
+
+    test('reports a request that fails as denied', async () => {
+      jest.spyOn(PermissionsAndroid, 'requestMultiple').mockRejectedValue(new Error('no activity'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(requestPermission('microphone')).resolves.toBe('denied');
+    });
+  });
+});
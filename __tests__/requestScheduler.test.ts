@@ -0,0 +1,61 @@
+import { RequestScheduler } from '../src/scheduling/RequestScheduler';
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(r => {
+    resolve = r;
+  });
+  return { promise, resolve };
+};
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('request scheduler', () => {
+  test('caps concurrency and drops the oldest queued task when full', async () => {
+    const scheduler = new RequestScheduler({ frames: { concurrency: 1, maxQueue: 1, policy: 'drop-oldest' } });
+    const first = deferred<string>();
+    const results: string[] = [];
+    const dropped: number[] = [];
+    const handlers = { onResult: (value: string) => results.push(value), onDrop: (seq: number) => dropped.push(seq) };
+
+    scheduler.submit('frames', () => first.promise, handlers);
+    scheduler.submit('frames', () => Promise.resolve('second'), handlers);
+    scheduler.submit('frames', () => Promise.resolve('third'), handlers);
+    expect(scheduler.stats().frames).toMatchObject({ running: 1, queued: 1, dropped: 1 });
+    expect(dropped).toEqual([2]);
+
+    first.resolve('first');
+    await flush();
+    expect(results).toEqual(['first', 'third']);
+    expect(scheduler.busy).toBe(false);
+  });
+
+  test('discards results that finish after a newer one was delivered', async () => {
+    const scheduler = new RequestScheduler({ audio: { concurrency: 2, maxQueue: 1, policy: 'coalesce' } });
+    const slow = deferred<string>();
+    const results: string[] = [];
+
+    scheduler.submit('audio', () => slow.promise, { onResult: value => results.push(value) });
+    scheduler.submit('audio', () => Promise.resolve('new'), { onResult: value => results.push(value) });
+    await flush();
+    slow.resolve('old');
+    await flush();
+
+    expect(results).toEqual(['new']);
+    expect(scheduler.stats().audio).toMatchObject({ completed: 1, stale: 1 });
+  });
+
+  test('clear ignores in-flight results', async () => {
+    const scheduler = new RequestScheduler({ frames: { concurrency: 1, maxQueue: 2, policy: 'drop-oldest' } });
+    const pending = deferred<string>();
+    const onResult = jest.fn();
+
+    scheduler.submit('frames', () => pending.promise, { onResult });
+    scheduler.clear();
+    pending.resolve('late');
+    await flush();
+
+    expect(onResult).not.toHaveBeenCalled();
+    expect(scheduler.stats().frames.stale).toBe(1);
+  });
+});
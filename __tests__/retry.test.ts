@@ -0,0 +1,59 @@
+import { EmotionApiError } from '../src/api/errors';
+import { backoffDelay, isTransientError, withRetry } from '../src/api/retry';
+
+const policy = { retries: 2, baseDelayMs: 100, maxDelayMs: 300 };
+const networkError = () => new EmotionApiError('network', 'predict-face', 'Network request failed');
+
+describe('retry', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('grows the delay exponentially up to the cap, with jitter in the upper half', () => {
+    expect(backoffDelay(0, policy, () => 0)).toBe(50);
+    expect(backoffDelay(0, policy, () => 1)).toBe(100);
+    expect(backoffDelay(1, policy, () => 1)).toBe(200);
+    expect(backoffDelay(5, policy, () => 0.5)).toBe(225);
+  });
+
+  test('only retries errors that may go away', () => {
+    expect(isTransientError(networkError())).toBe(true);
+    expect(isTransientError(new EmotionApiError('http', 'predict', 'HTTP 503', { status: 503 }))).toBe(true);
+    expect(isTransientError(new EmotionApiError('http', 'predict', 'HTTP 422', { status: 422 }))).toBe(false);
+    expect(isTransientError(new EmotionApiError('validation', 'predict', 'bad'))).toBe(false);
+    expect(isTransientError(new Error('boom'))).toBe(false);
+  });
+
+  test('retries transient failures until one succeeds', async () => {
+    const attempt = jest.fn().mockRejectedValueOnce(networkError()).mockResolvedValueOnce('ok');
+    const result = withRetry(attempt, policy);
+    await jest.runAllTimersAsync();
+    await expect(result).resolves.toBe('ok');
+    expect(attempt).toHaveBeenCalledTimes(2);
+  });
+
+  test('gives up after the last retry', async () => {
+    const attempt = jest.fn().mockRejectedValue(networkError());
+    const result = withRetry(attempt, policy).catch(error => error);
+    await jest.runAllTimersAsync();
+    expect(((await result) as EmotionApiError).kind).toBe('network');
+    expect(attempt).toHaveBeenCalledTimes(3);
+  });
+
+  test('stops waiting when aborted', async () => {
+    const controller = new AbortController();
+    const attempt = jest.fn().mockRejectedValue(networkError());
+    const result = withRetry(attempt, policy, controller.signal).catch(error => error);
+    await Promise.resolve();
+    controller.abort();
+    await jest.runAllTimersAsync();
+    expect(((await result) as EmotionApiError).kind).toBe('cancelled');
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,40 @@
+import { appendResult, filterSessions, MAX_SESSIONS, normalizeHistory, SessionInfo } from '../src/history/sessions';
+
+const prediction = { endpoint: 'predict-face' as const, label: 'happy', scores: [] };
+const info = (id: string, startedAt: number): SessionInfo => ({ id, mode: 'upload', sourceName: `${id}.jpg`, startedAt });
+
+describe('session history', () => {
+  test('creates a session on its first result and appends after that', () => {
+    let sessions = appendResult([], info('a', 1), { modality: 'image', recordedAt: 2, prediction });
+    sessions = appendResult(sessions, info('b', 3), { modality: 'audio', recordedAt: 4, prediction });
+    sessions = appendResult(sessions, info('a', 1), { modality: 'audio', recordedAt: 5, prediction });
+
+    expect(sessions.map(session => session.id)).toEqual(['b', 'a']);
+    expect(sessions[1].results).toHaveLength(2);
+    expect(sessions[1].updatedAt).toBe(5);
+  });
+
+  test('keeps only the newest sessions', () => {
+    let sessions = appendResult([], info('first', 0), { modality: 'image', recordedAt: 0, prediction });
+    for (let i = 1; i <= MAX_SESSIONS; i++) {
+      sessions = appendResult(sessions, info(`s${i}`, i), { modality: 'image', recordedAt: i, prediction });
+    }
+    expect(sessions).toHaveLength(MAX_SESSIONS);
+    expect(sessions.some(session => session.id === 'first')).toBe(false);
+  });
+
+  test('filters by modality and start date', () => {
+    let sessions = appendResult([], info('old', 100), { modality: 'image', recordedAt: 100, prediction });
+    sessions = appendResult(sessions, info('new', 500), { modality: 'audio', recordedAt: 500, prediction });
+
+    expect(filterSessions(sessions, { modality: 'image', since: null }).map(s => s.id)).toEqual(['old']);
+    expect(filterSessions(sessions, { modality: 'all', since: 200 }).map(s => s.id)).toEqual(['new']);
+    expect(filterSessions(sessions, { modality: 'image', since: 200 })).toEqual([]);
+  });
+
+  test('drops malformed entries from the stored file', () => {
+    const valid = appendResult([], info('a', 1), { modality: 'image', recordedAt: 1, prediction })[0];
+    expect(normalizeHistory([valid, { id: 3 }, null])).toEqual([valid]);
+    expect(normalizeHistory({ sessions: [] })).toEqual([]);
+  });
+});
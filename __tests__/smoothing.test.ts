@@ -0,0 +1,67 @@
+import { createSmoother, DEFAULT_SMOOTHING_OPTIONS, smoothTimeline } from '../src/analysis/smoothing';
+import type { EmotionPrediction } from '../src/api/emotionClient';
+import type { TimedPrediction } from '../src/analysis/timeline';
+
+const prediction = (label: string, scores: Record<string, number> = {}): EmotionPrediction => ({
+  endpoint: 'predict-face',
+  label,
+  scores: Object.entries(scores)
+    .map(([name, score]) => ({ label: name, score }))
+    .sort((a, b) => b.score - a.score),
+  confidence: scores[label],
+});
+
+const labels = (strategy: 'none' | 'majority' | 'hysteresis', sequence: string[]) => {
+  const smoother = createSmoother({ ...DEFAULT_SMOOTHING_OPTIONS, strategy, window: 3, hysteresisCount: 2 });
+  return sequence.map(label => smoother.push(prediction(label)).label);
+};
+
+describe('smoothing', () => {
+  test('passes results through unchanged when off', () => {
+    expect(labels('none', ['happy', 'sad', 'happy'])).toEqual(['happy', 'sad', 'happy']);
+  });
+
+  test('votes over a sliding window', () => {
+    expect(labels('majority', ['happy', 'sad', 'happy', 'sad', 'sad', 'sad'])).toEqual([
+      'happy',
+      'sad',
+      'happy',
+      'sad',
+      'sad',
+      'sad',
+    ]);
+    expect(labels('majority', ['happy', 'happy', 'sad', 'happy'])).toEqual(['happy', 'happy', 'happy', 'happy']);
+  });
+
+  test('averages scores exponentially', () => {
+    const smoother = createSmoother({ ...DEFAULT_SMOOTHING_OPTIONS, strategy: 'ema', alpha: 0.25 });
+    expect(smoother.push(prediction('happy', { happy: 0.8, sad: 0.2 })).label).toBe('happy');
+    const next = smoother.push(prediction('sad', { happy: 0.1, sad: 0.9 }));
+    expect(next.label).toBe('happy');
+    expect(next.confidence).toBeCloseTo(0.625);
+    expect(next.scores.map(entry => entry.label)).toEqual(['happy', 'sad']);
+  });
+
+  test('holds a label until a challenger leads several times in a row', () => {
+    expect(labels('hysteresis', ['happy', 'sad', 'happy', 'sad', 'sad', 'angry'])).toEqual([
+      'happy',
+      'happy',
+      'happy',
+      'happy',
+      'sad',
+      'sad',
+    ]);
+  });
+
+  test('smooths each modality of a timeline separately', () => {
+    const timeline: TimedPrediction[] = [
+      { modality: 'image', start: 0, duration: 1, prediction: prediction('happy') },
+      { modality: 'audio', start: 0, duration: 2, prediction: prediction('calm') },
+      { modality: 'image', start: 1, duration: 1, prediction: prediction('sad') },
+      { modality: 'image', start: 2, duration: 1, prediction: prediction('happy') },
+    ];
+    const smoothed = smoothTimeline(timeline, { ...DEFAULT_SMOOTHING_OPTIONS, strategy: 'hysteresis', hysteresisCount: 2 });
+    expect(smoothed.map(entry => entry.prediction.label)).toEqual(['happy', 'calm', 'happy', 'happy']);
+    expect(smoothed[2].start).toBe(1);
+  });
+});
@@ -0,0 +1,232 @@
+import { FileSystem } from 'react-native-file-access';
+import type { EmotionClient, EmotionEndpoint } from '../src/api/emotionClient';
+import { EmotionApiError } from '../src/api/errors';
+import {
+  createSocketEmotionClient,
+  decodeStreamMessage,
+  EmotionSocket,
+  encodeStreamMessage,
+  fallbackClient,
+  PCM_CONTENT_TYPE,
+  StreamHeader,
+  streamUrl,
+} from '../src/api/socketClient';
+import { bytesToBase64 } from '../src/audio/base64';
+import { encodeWav } from '../src/audio/wav';
+
+const image = { uri: 'file:///tmp/a.jpg', type: 'image/jpeg', name: 'a.jpg' };
+const audio = { uri: 'file:///tmp/a.wav', type: 'audio/wav', name: 'a.wav' };
+
+// Each endpoint names its label differently, as over HTTP
+const LABEL_KEYS: Record<EmotionEndpoint, string> = {
+  'predict-face': 'emotion',
+  'predict-audio': 'emotion',
+  predict_image: 'classification',
+  predict: 'classification',
+};
+const happy = (header: StreamHeader) => ({ id: header.id, result: { [LABEL_KEYS[header.endpoint]]: 'happy' } });
+
+// Answers a decoded request; null leaves it unanswered
+type Handler = (header: StreamHeader, payload: Uint8Array) => object | null;
+
+// A local mock server behind just enough of WebSocket for the client
+class FakeWebSocket {
+  static refuse = false;
+  // The constructor throws, as React Native does for a malformed URL
+  static invalid = false;
+  static handler: Handler = happy;
+  static opened: FakeWebSocket[] = [];
+  static received: Array<{ header: StreamHeader; payload: Uint8Array }> = [];
+  binaryType = 'blob';
+  onopen?: () => void;
+  onmessage?: (event: { data: unknown }) => void;
+  onclose?: () => void;
+  onerror?: () => void;
+
+  constructor(readonly url: string) {
+    if (FakeWebSocket.invalid) {
+      throw new SyntaxError(`Invalid URL: ${url}`);
+    }
+    FakeWebSocket.opened.push(this);
+    setTimeout(() => (FakeWebSocket.refuse ? this.close() : this.onopen?.()));
+  }
+  send(data: ArrayBuffer) {
+    const request = decodeStreamMessage(new Uint8Array(data));
+    FakeWebSocket.received.push(request);
+    const reply = FakeWebSocket.handler(request.header, request.payload);
+    if (reply) {
+      setTimeout(() => this.onmessage?.({ data: JSON.stringify(reply) }));
+    }
+  }
+  close() {
+    setTimeout(() => this.onclose?.());
+  }
+}
+
+const rejection = (promise: Promise<unknown>) =>
+  promise.then(
+    () => {
+      throw new Error('expected rejection');
+    },
+    error => error as EmotionApiError,
+  );
+
+describe('socket client', () => {
+  beforeEach(() => {
+    FakeWebSocket.refuse = false;
+    FakeWebSocket.invalid = false;
+    FakeWebSocket.handler = happy;
+    FakeWebSocket.opened = [];
+    FakeWebSocket.received = [];
+    global.WebSocket = FakeWebSocket as unknown as typeof WebSocket;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  test('derives the socket URL from the HTTP base URL', () => {
+    expect(streamUrl('http://backend:8000/')).toBe('ws://backend:8000/stream');
+    expect(streamUrl('https://staging.example.com')).toBe('wss://staging.example.com/stream');
+  });
+
+  test('frames a header and payload into one message and back', () => {
+    const header = { id: 7, endpoint: 'predict-face' as const, contentType: 'image/jpeg' };
+    const message = encodeStreamMessage(header, Uint8Array.from([1, 2, 3]));
+    expect(decodeStreamMessage(message)).toEqual({ header, payload: Uint8Array.from([1, 2, 3]) });
+  });
+
+  test('sends requests over one connection and validates the replies', async () => {
+    const socket = new EmotionSocket('ws://backend:8000/stream', 5000);
+    const client = createSocketEmotionClient(socket);
+
+    await expect(client.predictFace(image)).resolves.toMatchObject({ endpoint: 'predict-face', label: 'happy' });
+    await expect(client.predictImage(image)).resolves.toMatchObject({ endpoint: 'predict_image', label: 'happy' });
+    expect(FakeWebSocket.opened).toHaveLength(1);
+    expect(FakeWebSocket.opened[0].binaryType).toBe('arraybuffer');
+    expect(FakeWebSocket.received.map(request => request.header)).toEqual([
+      { id: 1, endpoint: 'predict-face', contentType: 'image/jpeg' },
+      { id: 2, endpoint: 'predict_image', contentType: 'image/jpeg' },
+    ]);
+    socket.close();
+  });
+
+  test('streams WAV chunks as bare PCM samples', async () => {
+    const samples = Int16Array.from([100, -200, 300]);
+    jest.mocked(FileSystem.readFile).mockResolvedValueOnce(bytesToBase64(encodeWav(samples)));
+    const socket = new EmotionSocket('ws://backend:8000/stream', 5000);
+
+    await createSocketEmotionClient(socket).predictAudioChunk(audio);
+    const [request] = FakeWebSocket.received;
+    expect(request.header.contentType).toBe(PCM_CONTENT_TYPE);
+    expect(new Int16Array(request.payload.slice().buffer)).toEqual(samples);
+    socket.close();
+  });
+
+  test('sends in-memory audio without touching the disk', async () => {
+    const samples = Int16Array.from([5, -5]);
+    const window = { bytes: encodeWav(samples), type: 'audio/wav', name: 'a.wav' };
+    const socket = new EmotionSocket('ws://backend:8000/stream', 5000);
+
+    await createSocketEmotionClient(socket).predictAudioChunk(window);
+    expect(new Int16Array(FakeWebSocket.received[0].payload.slice().buffer)).toEqual(samples);
+    expect(FileSystem.readFile).not.toHaveBeenCalled();
+    expect(FileSystem.writeFile).not.toHaveBeenCalled();
+    socket.close();
+  });
+
+  test('matches replies to requests by id when they arrive out of order', async () => {
+    const held: StreamHeader[] = [];
+    FakeWebSocket.handler = header => {
+      held.push(header);
+      return null;
+    };
+    const socket = new EmotionSocket('ws://backend:8000/stream', 5000);
+    const first = socket.request('predict-face', 'image/jpeg', new Uint8Array());
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const second = socket.request('predict-face', 'image/jpeg', new Uint8Array());
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    const server = FakeWebSocket.opened[0];
+    server.onmessage?.({ data: JSON.stringify({ id: held[1].id, result: 'second' }) });
+    server.onmessage?.({ data: JSON.stringify({ id: held[0].id, result: 'first' }) });
+    await expect(Promise.all([first, second])).resolves.toEqual(['first', 'second']);
+    socket.close();
+  });
+
+  test('turns error replies into API errors', async () => {
+    FakeWebSocket.handler = header => ({ id: header.id, error: 'Model not loaded', status: 503 });
+    const socket = new EmotionSocket('ws://backend:8000/stream', 5000);
+
+    const error = await rejection(createSocketEmotionClient(socket).predictFace(image));
+    expect(error).toBeInstanceOf(EmotionApiError);
+    expect(error).toMatchObject({ kind: 'http', status: 503, message: 'Model not loaded' });
+    socket.close();
+  });
+
+  test('fails as a network error when the socket cannot connect or drops', async () => {
+    FakeWebSocket.refuse = true;
+    const socket = new EmotionSocket('ws://backend:8000/stream', 5000);
+    await expect(rejection(socket.request('predict', PCM_CONTENT_TYPE, new Uint8Array()))).resolves.toMatchObject({
+      kind: 'network',
+    });
+
+    FakeWebSocket.refuse = false;
+    FakeWebSocket.handler = () => null;
+    const pending = socket.request('predict', PCM_CONTENT_TYPE, new Uint8Array());
+    await new Promise(resolve => setTimeout(resolve, 5));
+    FakeWebSocket.opened[1].close();
+    await expect(rejection(pending)).resolves.toMatchObject({ kind: 'network' });
+  });
+
+  test('fails as a network error when the socket cannot be created, and tries again next time', async () => {
+    FakeWebSocket.invalid = true;
+    const socket = new EmotionSocket('ws://backend:8000/stream', 5000);
+    await expect(rejection(socket.request('predict', PCM_CONTENT_TYPE, new Uint8Array()))).resolves.toMatchObject({
+      kind: 'network',
+    });
+
+    FakeWebSocket.invalid = false;
+    await expect(socket.request('predict', PCM_CONTENT_TYPE, new Uint8Array())).resolves.toBeDefined();
+    expect(FakeWebSocket.opened).toHaveLength(1);
+    socket.close();
+  });
+
+  test('falls back to HTTP while the socket is down and tries it again later', async () => {
+    const prediction = { endpoint: 'predict-face' as const, label: 'http', scores: [] };
+    const http: EmotionClient = {
+      predictFace: jest.fn(() => Promise.resolve(prediction)),
+      predictAudio: jest.fn(() => Promise.resolve(prediction)),
+      predictImage: jest.fn(() => Promise.resolve(prediction)),
+      predictAudioChunk: jest.fn(() => Promise.resolve(prediction)),
+    };
+    FakeWebSocket.refuse = true;
+    const socket = new EmotionSocket('ws://backend:8000/stream', 5000);
+    const client = fallbackClient(createSocketEmotionClient(socket), http, 1000);
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+
+    await expect(client.predictFace(image)).resolves.toMatchObject({ label: 'http' });
+    await expect(client.predictFace(image)).resolves.toMatchObject({ label: 'http' });
+    expect(FakeWebSocket.opened).toHaveLength(1);
+    expect(http.predictFace).toHaveBeenCalledTimes(2);
+
+    FakeWebSocket.refuse = false;
+    now.mockReturnValue(1000);
+    await expect(client.predictFace(image)).resolves.toMatchObject({ label: 'happy' });
+    expect(http.predictFace).toHaveBeenCalledTimes(2);
+    socket.close();
+  });
+
+  test('does not fall back on errors the backend answered with', async () => {
+    FakeWebSocket.handler = header => ({ id: header.id, error: 'Unsupported image' });
+    const http = { predictFace: jest.fn() } as unknown as EmotionClient;
+    const socket = new EmotionSocket('ws://backend:8000/stream', 5000);
+
+    const error = await rejection(fallbackClient(createSocketEmotionClient(socket), http).predictFace(image));
+    expect(error.kind).toBe('validation');
+    expect(http.predictFace).not.toHaveBeenCalled();
+    socket.close();
+  });
+});
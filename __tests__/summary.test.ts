@@ -0,0 +1,68 @@
+import { DEFAULT_FUSION_OPTIONS } from '../src/analysis/fusion';
+import type { AnalysisSession, SessionResult } from '../src/history/sessions';
+import { summarizeSessions } from '../src/history/summary';
+
+const result = (modality: 'image' | 'audio', label: string, start?: number, duration?: number): SessionResult => ({
+  modality,
+  recordedAt: 0,
+  start,
+  duration,
+  prediction: { endpoint: modality === 'image' ? 'predict-face' : 'predict-audio', label, scores: [] },
+});
+
+const session = (id: string, results: SessionResult[]): AnalysisSession => ({
+  id,
+  mode: 'video',
+  sourceName: id,
+  startedAt: 0,
+  updatedAt: 0,
+  results,
+});
+
+describe('session summary', () => {
+  test('measures time per emotion along the video, cutting overlaps at the next result', () => {
+    const video = session('clip', [
+      result('image', 'happy', 0, 1),
+      result('image', 'happy', 1, 1),
+      result('image', 'sad', 2, 5),
+      result('image', 'happy', 4, 1),
+    ]);
+    const [face] = summarizeSessions([video], DEFAULT_FUSION_OPTIONS).modalities;
+    expect(face.seconds).toBe(5);
+    expect(face.dominant).toBe('happy');
+    expect(face.emotions).toEqual([
+      { label: 'happy', count: 3, seconds: 3, share: 0.6 },
+      { label: 'sad', count: 1, seconds: 2, share: 0.4 },
+    ]);
+  });
+
+  test('falls back to result counts across an upload batch', () => {
+    const batch = [
+      session('a', [result('image', 'sad')]),
+      session('b', [result('image', 'angry')]),
+      session('c', [result('image', 'sad')]),
+    ];
+    const summary = summarizeSessions(batch, DEFAULT_FUSION_OPTIONS);
+    expect(summary.sessions).toBe(3);
+    expect(summary.modalities).toHaveLength(1);
+    expect(summary.modalities[0].dominant).toBe('sad');
+    expect(summary.modalities[0].emotions[0].share).toBeCloseTo(2 / 3);
+    expect(summary.agreement.compared).toBe(0);
+  });
+
+  test('counts how often face and voice agreed', () => {
+    const video = session('clip', [
+      result('image', 'happy', 0, 1),
+      result('image', 'happy', 1, 1),
+      result('image', 'angry', 2, 1),
+      result('audio', 'happiness', 0, 2),
+      result('audio', 'sad', 2, 2),
+    ]);
+    expect(summarizeSessions([video], DEFAULT_FUSION_OPTIONS).agreement).toEqual({
+      compared: 3,
+      agreed: 2,
+      comparedSeconds: 3,
+      agreedSeconds: 2,
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import type { EmotionEndpoint } from '../../src/api/emotionClient';
+
+// What the stand-in backend does with one request
+export type MockResponse =
+  | { kind: 'success'; body: object }
+  | { kind: 'slow'; delayMs: number; body: object }
+  | { kind: 'error'; status: number; body?: string }
+  | { kind: 'malformed'; body: string }
+  | { kind: 'offline' };
+
+export interface MockRequest {
+  endpoint: EmotionEndpoint;
+  url: string;
+  body: unknown;
+}
+
+const LABEL_KEYS: Record<EmotionEndpoint, 'emotion' | 'classification'> = {
+  'predict-face': 'emotion',
+  'predict-audio': 'emotion',
+  predict_image: 'classification',
+  predict: 'classification',
+};
+
+// A prediction body the way each endpoint shapes it, with optional class probabilities
+export const predictionBody = (endpoint: EmotionEndpoint, label: string, scores?: Record<string, number>) => ({
+  [LABEL_KEYS[endpoint]]: label,
+  ...(scores ? { scores } : {}),
+});
+
+export const success = (endpoint: EmotionEndpoint, label: string, scores?: Record<string, number>): MockResponse => ({
+  kind: 'success',
+  body: predictionBody(endpoint, label, scores),
+});
+
+export const slow = (endpoint: EmotionEndpoint, label: string, delayMs: number): MockResponse => ({
+  kind: 'slow',
+  delayMs,
+  body: predictionBody(endpoint, label),
+});
+
+// Answers with a 200 whose body isn't a prediction
+export const malformed = (body = '<html>Bad gateway</html>'): MockResponse => ({ kind: 'malformed', body });
+
+export const httpError = (status: number, body = ''): MockResponse => ({ kind: 'error', status, body });
+
+// Stand-in for the emotion API behind XMLHttpRequest. Each endpoint answers with the responses
+// queued for it in order, then with `fallback`; every request is recorded for assertions.
+export class MockBackend {
+  readonly requests: MockRequest[] = [];
+  private readonly queued = new Map<EmotionEndpoint, MockResponse[]>();
+  private original: typeof XMLHttpRequest | null = null;
+
+  constructor(private readonly fallback: (endpoint: EmotionEndpoint) => MockResponse = e => success(e, 'neutral')) {}
+
+  respond(endpoint: EmotionEndpoint, ...responses: MockResponse[]) {
+    this.queued.set(endpoint, [...(this.queued.get(endpoint) ?? []), ...responses]);
+    return this;
+  }
+
+  requestsTo(endpoint: EmotionEndpoint) {
+    return this.requests.filter(request => request.endpoint === endpoint);
+  }
+
+  install() {
+    this.original = global.XMLHttpRequest;
+    global.XMLHttpRequest = this.xhrClass() as unknown as typeof XMLHttpRequest;
+    return this;
+  }
+
+  restore() {
+    if (this.original) {
+      global.XMLHttpRequest = this.original;
+      this.original = null;
+    }
+  }
+
+  private next(endpoint: EmotionEndpoint): MockResponse {
+    return this.queued.get(endpoint)?.shift() ?? this.fallback(endpoint);
+  }
+
+  private xhrClass() {
+    const receive = (request: MockRequest) => {
+      this.requests.push(request);
+      return this.next(request.endpoint);
+    };
+    return class MockXhr {
+      url = '';
+      status = 0;
+      responseText = '';
+      timeout = 0;
+      upload: { onprogress?: (event: { loaded: number; total: number; lengthComputable: boolean }) => void } = {};
+      onload?: () => void;
+      onerror?: () => void;
+      ontimeout?: () => void;
+      onabort?: () => void;
+      private timer?: ReturnType<typeof setTimeout>;
+
+      open(_method: string, url: string) {
+        this.url = url;
+      }
+      setRequestHeader() {}
+      abort() {
+        clearTimeout(this.timer);
+        this.onabort?.();
+      }
+      send(body: unknown) {
+        const endpoint = this.url.split('/').pop() as EmotionEndpoint;
+        const response = receive({ endpoint, url: this.url, body });
+        const delayMs = response.kind === 'slow' ? response.delayMs : 0;
+        this.timer = setTimeout(() => this.answer(response), delayMs);
+      }
+      private answer(response: MockResponse) {
+        if (response.kind === 'offline') {
+          this.onerror?.();
+          return;
+        }
+        this.upload.onprogress?.({ loaded: 1024, total: 1024, lengthComputable: true });
+        if (response.kind === 'error') {
+          this.status = response.status;
+          this.responseText = response.body ?? '';
+        } else {
+          this.status = 200;
+          this.responseText = response.kind === 'malformed' ? response.body : JSON.stringify(response.body);
+        }
+        this.onload?.();
+      }
+    };
+  }
+}
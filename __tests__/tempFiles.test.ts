@@ -0,0 +1,176 @@
+import { FileStat, FileSystem } from 'react-native-file-access';
+import { sweepTempFiles, TempSession, TempStorage } from '../src/storage/tempFiles';
+
+const fs = jest.mocked(FileSystem);
+
+// Sizes of the files on a fake disk, by path; statDir and unlink work on it like the real ones
+const disk = new Map<string, number>();
+const useDisk = () => {
+  fs.statDir.mockImplementation(async dir =>
+    Array.from(disk)
+      .filter(([path]) => path.startsWith(`${dir}/`))
+      .map(([, size]) => ({ size } as FileStat)),
+  );
+  fs.unlink.mockImplementation(async target => {
+    Array.from(disk.keys())
+      .filter(path => path === target || path.startsWith(`${target}/`))
+      .forEach(path => disk.delete(path));
+  });
+};
+
+describe('temp files', () => {
+  let storage: TempStorage;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    storage = new TempStorage('/cache/temp', 1000);
+  });
+
+  test('hands out unique paths in a directory per session', async () => {
+    const first = storage.create('video');
+    const second = storage.create('video');
+
+    const paths = [await first.file('frame.jpg'), await first.file('frame.jpg'), await second.file('frame.jpg')];
+    expect(new Set(paths).size).toBe(3);
+    expect(first.dir).not.toBe(second.dir);
+    expect(paths[0].startsWith(`${first.dir}/`)).toBe(true);
+    expect(fs.mkdir).toHaveBeenCalledWith('/cache/temp');
+    expect(fs.mkdir).toHaveBeenCalledWith(first.dir);
+  });
+
+  test('removes a working file whether the work succeeds or fails', async () => {
+    const session = storage.create('segment');
+
+    let used = '';
+    await expect(
+      session.withFile('chunk.wav', async path => {
+        used = path;
+        return 'ok';
+      }),
+    ).resolves.toBe('ok');
+    expect(fs.unlink).toHaveBeenCalledWith(used);
+
+    await expect(
+      session.withFile('chunk.wav', async path => {
+        used = path;
+        throw new Error('FFmpeg cancelled');
+      }),
+    ).rejects.toThrow('FFmpeg cancelled');
+    expect(fs.unlink).toHaveBeenCalledWith(used);
+  });
+
+  test('removes the whole directory on dispose and refuses new files afterwards', async () => {
+    const session = storage.create('upload');
+    await session.file('converted.jpg');
+
+    await session.dispose();
+    expect(fs.unlink).toHaveBeenCalledWith(session.dir);
+    await expect(session.file('again.jpg')).rejects.toThrow('already cleaned up');
+  });
+
+  describe('size cap', () => {
+    // A file written to a session, still in use until released
+    const write = async (session: TempSession, size: number) => {
+      const path = await session.file('data.bin');
+      disk.set(path, size);
+      return path;
+    };
+    const written = async (session: TempSession, size: number) => session.release(await write(session, size));
+    const exists = (session: TempSession) => Array.from(disk.keys()).some(path => path.startsWith(`${session.dir}/`));
+
+    beforeEach(() => {
+      disk.clear();
+      useDisk();
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      fs.statDir.mockResolvedValue([]);
+      fs.unlink.mockResolvedValue();
+    });
+
+    test('evicts finished sessions, least recently used first, until under the cap', async () => {
+      storage = new TempStorage('/cache/temp', 500);
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1);
+      const oldest = storage.create('upload');
+      await written(oldest, 400);
+      now.mockReturnValue(2);
+      const recent = storage.create('upload');
+      await written(recent, 300);
+      now.mockReturnValue(3);
+      const newest = storage.create('upload');
+      await written(newest, 50);
+      const inUse = storage.create('upload');
+      await write(inUse, 200);
+
+      await storage.enforceCap();
+      expect(exists(oldest)).toBe(false);
+      expect(exists(recent)).toBe(false);
+      expect(exists(newest)).toBe(true);
+      expect(exists(inUse)).toBe(true);
+    });
+
+    test('keeps a session while its files are in use and frees it once they are released', async () => {
+      storage = new TempStorage('/cache/temp', 500);
+      const upload = storage.create('upload');
+      const converted = await write(upload, 800);
+      const segment = storage.create('segment');
+      let release = () => {};
+      const working = segment.withFile('frame.jpg', path => {
+        disk.set(path, 100);
+        return new Promise<void>(resolve => (release = resolve));
+      });
+      await new Promise(resolve => setImmediate(resolve));
+
+      await storage.enforceCap();
+      expect(exists(upload)).toBe(true);
+      expect(exists(segment)).toBe(true);
+
+      upload.release(converted);
+      await storage.enforceCap();
+      expect(exists(upload)).toBe(false);
+      await expect(upload.file('again.jpg')).rejects.toThrow('already cleaned up');
+
+      release();
+      await working;
+      expect(exists(segment)).toBe(false);
+    });
+
+    test('leaves a loaded video out of the total', async () => {
+      storage = new TempStorage('/cache/temp', 500);
+      const video = storage.create('video', { pinned: true });
+      await written(video, 4 * 1024 * 1024 * 1024);
+      const upload = storage.create('upload');
+      await written(upload, 100);
+
+      await storage.enforceCap();
+      expect(exists(video)).toBe(true);
+      expect(exists(upload)).toBe(true);
+    });
+  });
+
+  test('sweeps directories no live session owns', async () => {
+    const live = storage.create('video');
+    fs.ls.mockResolvedValueOnce([live.id, 'video-1-0', 'upload-2-1']);
+
+    await expect(storage.sweep()).resolves.toBe(2);
+    expect(fs.unlink).toHaveBeenCalledWith('/cache/temp/video-1-0');
+    expect(fs.unlink).toHaveBeenCalledWith('/cache/temp/upload-2-1');
+    expect(fs.unlink).not.toHaveBeenCalledWith(live.dir);
+  });
+
+  test('clears the fixed paths older versions wrote to at startup', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    fs.ls.mockResolvedValueOnce([]);
+    fs.ls.mockResolvedValueOnce(['temp', 'input_video_temp.mp4', 'video_processing', 'live_audio_12.wav', 'exports']);
+
+    await sweepTempFiles();
+    expect(fs.unlink).toHaveBeenCalledWith('/cache/input_video_temp.mp4');
+    expect(fs.unlink).toHaveBeenCalledWith('/cache/video_processing');
+    expect(fs.unlink).toHaveBeenCalledWith('/cache/live_audio_12.wav');
+    expect(fs.unlink).not.toHaveBeenCalledWith('/cache/exports');
+    expect(fs.unlink).not.toHaveBeenCalledWith('/cache/temp');
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,44 @@
+import { countJobs, nextQueued, UploadJob, uploadJobsReducer } from '../src/upload/uploadJobs';
+
+const job = (id: string): UploadJob => ({
+  id,
+  modality: 'image',
+  name: `${id}.jpg`,
+  uri: `file:///${id}.jpg`,
+  type: 'image/jpeg',
+  size: null,
+  status: 'queued',
+});
+const prediction = { endpoint: 'predict-face' as const, label: 'happy', scores: [] };
+
+describe('upload jobs', () => {
+  test('runs queued jobs one at a time in pick order', () => {
+    let jobs = uploadJobsReducer([], { type: 'enqueue', jobs: [job('a'), job('b')] });
+    expect(nextQueued(jobs)?.id).toBe('a');
+
+    jobs = uploadJobsReducer(jobs, { type: 'start', id: 'a' });
+    expect(nextQueued(jobs)).toBeUndefined();
+
+    jobs = uploadJobsReducer(jobs, { type: 'done', id: 'a', prediction });
+    expect(nextQueued(jobs)?.id).toBe('b');
+  });
+
+  test('requeues failed jobs on retry and clears finished ones', () => {
+    let jobs = uploadJobsReducer([], { type: 'enqueue', jobs: [job('a'), job('b'), job('c')] });
+    jobs = uploadJobsReducer(jobs, { type: 'failed', id: 'a', error: 'HTTP 500' });
+    jobs = uploadJobsReducer(jobs, { type: 'failed', id: 'b', error: 'HTTP 500' });
+    jobs = uploadJobsReducer(jobs, { type: 'done', id: 'c', prediction });
+    expect(countJobs(jobs)).toEqual({ queued: 0, uploading: 0, done: 1, failed: 2, deferred: 0 });
+
+    jobs = uploadJobsReducer(jobs, { type: 'retry', id: 'b' });
+    expect(jobs.map(item => item.status)).toEqual(['failed', 'queued', 'done']);
+    expect(jobs[1].error).toBeUndefined();
+
+    jobs = uploadJobsReducer(jobs, { type: 'retry' });
+    jobs = uploadJobsReducer(jobs, { type: 'clearFinished' });
+    expect(jobs.map(item => [item.id, item.status])).toEqual([
+      ['a', 'queued'],
+      ['b', 'queued'],
+    ]);
+  });
+});
@@ -0,0 +1,47 @@
+import { DEFAULT_VAD_OPTIONS, detectSpeech, levelDb, zeroCrossingRate } from '../src/audio/vad';
+
+const RATE = 16000;
+
+// `seconds` of a sine wave at `frequency` Hz with peak `amplitude` (0..1 of full scale)
+const tone = (frequency: number, amplitude: number, seconds = 1) =>
+  Int16Array.from({ length: RATE * seconds }, (_, i) =>
+    Math.round(Math.sin((2 * Math.PI * frequency * i) / RATE) * amplitude * 32767),
+  );
+
+// Deterministic full-band noise: samples flip sign every step and vary in size
+const hiss = (amplitude: number, seconds = 1) =>
+  Int16Array.from(
+    { length: RATE * seconds },
+    (_, i) => (i % 2 ? 1 : -1) * Math.round((((i * 7919) % 97) / 97) * amplitude * 32767),
+  );
+
+describe('voice activity detection', () => {
+  test('measures level and zero crossings', () => {
+    expect(levelDb(new Int16Array(100))).toBe(-Infinity);
+    expect(levelDb(tone(200, 0.5))).toBeCloseTo(-9, 0);
+    expect(zeroCrossingRate(tone(200, 0.5))).toBeCloseTo(400 / RATE, 2);
+  });
+
+  test('treats quiet windows as silence', () => {
+    expect(detectSpeech(new Int16Array(RATE)).speech).toBe(false);
+    expect(detectSpeech(tone(200, 0.001)).speech).toBe(false);
+  });
+
+  test('hears a voiced tone', () => {
+    const result = detectSpeech(tone(200, 0.3));
+    expect(result.speech).toBe(true);
+    expect(result.speechRatio).toBe(1);
+  });
+
+  test('rejects loud hiss by its zero-crossing rate', () => {
+    expect(detectSpeech(hiss(0.3)).speech).toBe(false);
+    expect(detectSpeech(hiss(0.3), { ...DEFAULT_VAD_OPTIONS, maxZeroCrossingRate: 1 }).speech).toBe(true);
+  });
+
+  test('needs enough voiced frames in the window', () => {
+    const window = new Int16Array(RATE);
+    window.set(tone(200, 0.3, 0.1));
+    expect(detectSpeech(window).speech).toBe(false);
+    expect(detectSpeech(window, { ...DEFAULT_VAD_OPTIONS, minSpeechRatio: 0.1 }).speech).toBe(true);
+  });
+});
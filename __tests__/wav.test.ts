@@ -0,0 +1,53 @@
+import { base64ToBytes, bytesToBase64 } from '../src/audio/base64';
+import { decodeWavSamples, encodeWav, pcmBytesToSamples } from '../src/audio/wav';
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+describe('encodeWav', () => {
+  test('writes a 16 kHz mono PCM header followed by little-endian samples', () => {
+    const wav = encodeWav(Int16Array.from([0, 1, -1, 32767]));
+    const view = new DataView(wav.buffer);
+
+    expect(wav.length).toBe(44 + 8);
+    expect(ascii(wav, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + 8);
+    expect(ascii(wav, 8, 8)).toBe('WAVEfmt ');
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(16000);
+    expect(view.getUint32(28, true)).toBe(32000);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(ascii(wav, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(8);
+    expect(Array.from(pcmBytesToSamples(wav.subarray(44)))).toEqual([0, 1, -1, 32767]);
+  });
+});
+
+describe('decodeWavSamples', () => {
+  test('reads the data chunk, skipping any chunk before it', () => {
+    const wav = encodeWav(Int16Array.from([5, -5, 300]));
+    expect(Array.from(decodeWavSamples(wav))).toEqual([5, -5, 300]);
+
+    // FFmpeg writes a LIST chunk between fmt and data
+    const list = Uint8Array.from([76, 73, 83, 84, 3, 0, 0, 0, 1, 2, 3, 0]);
+    const withList = new Uint8Array(wav.length + list.length);
+    withList.set(wav.subarray(0, 36));
+    withList.set(list, 36);
+    withList.set(wav.subarray(36), 36 + list.length);
+    expect(Array.from(decodeWavSamples(withList))).toEqual([5, -5, 300]);
+
+    expect(() => decodeWavSamples(Uint8Array.from([1, 2, 3]))).toThrow('Not a WAV file');
+  });
+});
+
+describe('base64', () => {
+  test('round-trips every padding length', () => {
+    for (const length of [0, 1, 2, 3, 4, 5, 257]) {
+      const bytes = Uint8Array.from({ length }, (_, i) => (i * 37) % 256);
+      const encoded = bytesToBase64(bytes);
+      expect(encoded).toBe(Buffer.from(bytes).toString('base64'));
+      expect(Array.from(base64ToBytes(encoded))).toEqual(Array.from(bytes));
+    }
+  });
+});
@@ -0,0 +1,32 @@
+import { AudioWindower } from '../src/audio/windower';
+
+const range = (start: number, end: number) => Int16Array.from({ length: end - start }, (_, i) => start + i);
+
+describe('AudioWindower', () => {
+  test('emits overlapping windows regardless of how input is chunked', () => {
+    const windower = new AudioWindower(4, 2);
+    const windows = [range(0, 3), range(3, 5), range(5, 10)].flatMap(chunk => windower.push(chunk));
+
+    expect(windows.map(window => window.startSample)).toEqual([0, 2, 4, 6]);
+    expect(windows.map(window => Array.from(window.samples))).toEqual([
+      [0, 1, 2, 3],
+      [2, 3, 4, 5],
+      [4, 5, 6, 7],
+      [6, 7, 8, 9],
+    ]);
+  });
+
+  test('leaves no gaps when hop equals the window', () => {
+    const windower = new AudioWindower(3, 3);
+    const windows = windower.push(range(0, 9));
+    expect(windows.map(window => Array.from(window.samples))).toEqual([
+      [0, 1, 2],
+      [3, 4, 5],
+      [6, 7, 8],
+    ]);
+  });
+
+  test('rejects a hop longer than the window', () => {
+    expect(() => new AudioWindower(2, 3)).toThrow();
+  });
+});
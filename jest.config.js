@@ -1,3 +1,6 @@
 module.exports = {
   preset: 'react-native',
+  setupFiles: ['./jest.setup.js'],
+  // Shared fixtures such as the mock backend live next to the tests but aren't tests themselves
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/__tests__/support/'],
 };
@@ -0,0 +1,65 @@
+/* eslint-env jest */
+
+// Native modules have no implementation under Jest; stub the ones the app imports.
+jest.mock('@react-native-documents/picker', () => ({
+  pick: jest.fn(),
+  saveDocuments: jest.fn(),
+  types: {},
+  errorCodes: { OPERATION_CANCELED: 'OPERATION_CANCELED' },
+  isErrorWithCode: jest.fn(() => false),
+}));
+
+jest.mock('@react-native-ml-kit/face-detection', () => ({
+  __esModule: true,
+  default: { detect: jest.fn(() => Promise.resolve([])) },
+}));
+
+jest.mock('react-native-file-access', () => {
+  const stat = jest.fn(() => Promise.resolve({ size: 0, type: 'file' }));
+  return {
+    Dirs: { CacheDir: '/cache', DocumentDir: '/documents', MainBundleDir: '/bundle' },
+    FileSystem: {
+      exists: jest.fn(() => Promise.resolve(false)),
+      readFile: jest.fn(() => Promise.resolve('')),
+      writeFile: jest.fn(() => Promise.resolve()),
+      mkdir: jest.fn(path => Promise.resolve(path)),
+      unlink: jest.fn(() => Promise.resolve()),
+      mv: jest.fn(() => Promise.resolve()),
+      // Like the library, a progress listener makes cp stat the source first
+      cp: jest.fn((source, _target, onProgress) => (onProgress ? stat(source) : Promise.resolve()).then(() => {})),
+      stat,
+      statDir: jest.fn(() => Promise.resolve([])),
+      ls: jest.fn(() => Promise.resolve([])),
+    },
+    Util: {
+      basename: jest.fn(path => path.split('/').pop()),
+      extname: jest.fn(path => path.split('.').pop()),
+    },
+  };
+});
+
+jest.mock('react-native-video', () => 'Video');
+
+jest.mock('ffmpeg-kit-react-native', () => ({
+  FFmpegKit: { execute: jest.fn(), executeAsync: jest.fn(), cancel: jest.fn() },
+  FFprobeKit: { getMediaInformation: jest.fn(), getMediaInformationAsync: jest.fn() },
+  FFmpegKitConfig: { getSafParameterForRead: jest.fn() },
+  ReturnCode: { isSuccess: jest.fn(() => true), isCancel: jest.fn(() => false) },
+}));
+
+jest.mock('react-native-vision-camera', () => ({
+  Camera: Object.assign(() => null, {
+    getCameraPermissionStatus: jest.fn(() => 'not-determined'),
+    getMicrophonePermissionStatus: jest.fn(() => 'not-determined'),
+    requestCameraPermission: jest.fn(() => Promise.resolve('granted')),
+    requestMicrophonePermission: jest.fn(() => Promise.resolve('granted')),
+  }),
+  useCameraDevice: jest.fn(() => undefined),
+}));
+
+jest.mock('react-native-audio-record', () => ({
+  init: jest.fn(),
+  start: jest.fn(),
+  stop: jest.fn(() => Promise.resolve('')),
+  on: jest.fn(),
+}));
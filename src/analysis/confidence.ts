@@ -0,0 +1,23 @@
+import type { EmotionPrediction } from '../api/emotionClient';
+
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.5;
+
+export interface RatedPrediction {
+  // The label to show; 'uncertain' when the top score is under the threshold
+  displayLabel: string;
+  uncertain: boolean;
+  confidence?: number;
+}
+
+// Predictions without a score distribution are trusted as-is
+export const ratePrediction = (prediction: EmotionPrediction, threshold: number): RatedPrediction => {
+  const { confidence } = prediction;
+  const uncertain = confidence !== undefined && confidence < threshold;
+  return {
+    displayLabel: uncertain ? 'uncertain' : prediction.label,
+    uncertain,
+    confidence,
+  };
+};
+
+export const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
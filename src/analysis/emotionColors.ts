@@ -0,0 +1,33 @@
+const EMOTION_COLORS: Record<string, string> = {
+  happy: '#FBC02D',
+  happiness: '#FBC02D',
+  sad: '#1976D2',
+  sadness: '#1976D2',
+  angry: '#D32F2F',
+  anger: '#D32F2F',
+  fear: '#7B1FA2',
+  fearful: '#7B1FA2',
+  surprise: '#F57C00',
+  surprised: '#F57C00',
+  disgust: '#388E3C',
+  disgusted: '#388E3C',
+  neutral: '#90A4AE',
+  calm: '#4DB6AC',
+};
+
+export const UNCERTAIN_COLOR = '#BDBDBD';
+
+const FALLBACK_COLORS = ['#5C6BC0', '#8D6E63', '#26A69A', '#EC407A', '#AB47BC', '#78909C'];
+
+// Stable color per emotion label; unknown labels hash into a fallback palette
+export const emotionColor = (label: string): string => {
+  const key = label.trim().toLowerCase();
+  if (EMOTION_COLORS[key]) {
+    return EMOTION_COLORS[key];
+  }
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) % 1000003;
+  }
+  return FALLBACK_COLORS[hash % FALLBACK_COLORS.length];
+};
@@ -0,0 +1,155 @@
+import type { EmotionPrediction, EmotionScore } from '../api/emotionClient';
+import { TimedPrediction, timelineFor } from './timeline';
+
+// 'weighted-average' blends both distributions; 'max-confidence' trusts whichever side is surer
+export type FusionStrategy = 'weighted-average' | 'max-confidence';
+
+export interface FusionOptions {
+  strategy: FusionStrategy;
+  // Share of the face scores in a weighted average, 0..1; voice gets the rest
+  faceWeight: number;
+  // Longest gap, in seconds, between a frame and a voice window that still counts as the same moment
+  maxGapS: number;
+}
+
+export const DEFAULT_FUSION_OPTIONS: FusionOptions = { strategy: 'weighted-average', faceWeight: 0.5, maxGapS: 1 };
+
+// 'single' when only one modality had a result to fuse
+export type Agreement = 'agree' | 'disagree' | 'single';
+
+export interface FusedEmotion {
+  label: string;
+  // Highest first, summing to 1 across labels seen by either side
+  scores: EmotionScore[];
+  confidence: number;
+  agreement: Agreement;
+  face: EmotionPrediction | null;
+  voice: EmotionPrediction | null;
+}
+
+// A stretch of media with the face and voice results that cover it
+export interface FusedSegment {
+  start: number;
+  duration: number;
+  fused: FusedEmotion;
+}
+
+// Face and voice models name the same emotions differently
+const LABEL_ALIASES: Record<string, string> = {
+  happiness: 'happy',
+  sadness: 'sad',
+  anger: 'angry',
+  fearful: 'fear',
+  surprised: 'surprise',
+  disgusted: 'disgust',
+};
+
+export const canonicalLabel = (label: string) => {
+  const key = label.trim().toLowerCase();
+  return LABEL_ALIASES[key] ?? key;
+};
+
+// Canonical label -> probability; a label-only prediction counts as certain
+const distribution = (prediction: EmotionPrediction): Map<string, number> => {
+  const entries = prediction.scores.length > 0 ? prediction.scores : [{ label: prediction.label, score: 1 }];
+  const map = new Map<string, number>();
+  for (const { label, score } of entries) {
+    const key = canonicalLabel(label);
+    map.set(key, (map.get(key) ?? 0) + score);
+  }
+  const total = Array.from(map.values()).reduce((sum, score) => sum + score, 0);
+  if (total > 0) {
+    map.forEach((score, key) => map.set(key, score / total));
+  }
+  return map;
+};
+
+const topOf = (map: Map<string, number>): EmotionScore => {
+  let best: EmotionScore = { label: '', score: -1 };
+  map.forEach((score, label) => {
+    if (score > best.score) {
+      best = { label, score };
+    }
+  });
+  return best;
+};
+
+const toScores = (map: Map<string, number>): EmotionScore[] =>
+  Array.from(map, ([label, score]) => ({ label, score })).sort((a, b) => b.score - a.score);
+
+// Combine one face and one voice result into an overall emotion
+export function fusePredictions(
+  face: EmotionPrediction | null,
+  voice: EmotionPrediction | null,
+  options: FusionOptions = DEFAULT_FUSION_OPTIONS,
+): FusedEmotion | null {
+  if (!face && !voice) {
+    return null;
+  }
+  if (!face || !voice) {
+    const only = distribution((face ?? voice) as EmotionPrediction);
+    const top = topOf(only);
+    return { label: top.label, scores: toScores(only), confidence: top.score, agreement: 'single', face, voice };
+  }
+
+  const faceScores = distribution(face);
+  const voiceScores = distribution(voice);
+  const agreement: Agreement = topOf(faceScores).label === topOf(voiceScores).label ? 'agree' : 'disagree';
+
+  let combined: Map<string, number>;
+  if (options.strategy === 'max-confidence') {
+    combined = topOf(faceScores).score >= topOf(voiceScores).score ? faceScores : voiceScores;
+  } else {
+    const weight = Math.min(1, Math.max(0, options.faceWeight));
+    combined = new Map<string, number>();
+    for (const label of new Set([...faceScores.keys(), ...voiceScores.keys()])) {
+      combined.set(label, weight * (faceScores.get(label) ?? 0) + (1 - weight) * (voiceScores.get(label) ?? 0));
+    }
+  }
+  const top = topOf(combined);
+  return { label: top.label, scores: toScores(combined), confidence: top.score, agreement, face, voice };
+}
+
+// Distance in seconds between two spans; 0 when they overlap
+const gapBetween = (a: TimedPrediction, b: TimedPrediction) =>
+  Math.max(0, a.start - (b.start + b.duration), b.start - (a.start + a.duration));
+
+const nearest = (entry: TimedPrediction, candidates: TimedPrediction[], maxGapS: number) => {
+  let best: TimedPrediction | null = null;
+  let bestGap = Infinity;
+  for (const candidate of candidates) {
+    const gap = gapBetween(entry, candidate);
+    if (gap <= maxGapS && gap < bestGap) {
+      best = candidate;
+      bestGap = gap;
+    }
+  }
+  return best;
+};
+
+// Pair every frame with the voice window covering (or closest to) it; voice windows no frame
+// landed in stand alone. Sorted by start.
+export function fuseTimeline(timeline: TimedPrediction[], options: FusionOptions = DEFAULT_FUSION_OPTIONS): FusedSegment[] {
+  const faces = timelineFor(timeline, 'image');
+  const voices = timelineFor(timeline, 'audio');
+  const used = new Set<TimedPrediction>();
+  const segments: FusedSegment[] = [];
+
+  for (const face of faces) {
+    const voice = nearest(face, voices, options.maxGapS);
+    if (voice) {
+      used.add(voice);
+    }
+    const fused = fusePredictions(face.prediction, voice?.prediction ?? null, options);
+    if (fused) {
+      segments.push({ start: face.start, duration: face.duration, fused });
+    }
+  }
+  for (const voice of voices) {
+    const fused = used.has(voice) ? null : fusePredictions(null, voice.prediction, options);
+    if (fused) {
+      segments.push({ start: voice.start, duration: voice.duration, fused });
+    }
+  }
+  return segments.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,154 @@
+import type { EmotionPrediction, EmotionScore } from '../api/emotionClient';
+import type { Modality } from '../state/ResultsContext';
+import type { TimedPrediction } from './timeline';
+
+// 'majority' votes over the last `window` labels, 'ema' averages scores exponentially,
+// 'hysteresis' holds the current label until another has led `hysteresisCount` times in a row
+export type SmoothingStrategy = 'none' | 'majority' | 'ema' | 'hysteresis';
+
+export interface SmoothingOptions {
+  strategy: SmoothingStrategy;
+  window: number;
+  // Weight of the newest result in the moving average, 0..1
+  alpha: number;
+  hysteresisCount: number;
+}
+
+export const DEFAULT_SMOOTHING_OPTIONS: SmoothingOptions = {
+  strategy: 'majority',
+  window: 5,
+  alpha: 0.4,
+  hysteresisCount: 3,
+};
+
+export interface Smoother {
+  // Feed the next raw result in time order and get the smoothed one back
+  push(prediction: EmotionPrediction): EmotionPrediction;
+}
+
+// Label -> score; a label-only prediction counts as a full vote
+const scoreMap = (prediction: EmotionPrediction) =>
+  new Map(
+    (prediction.scores.length > 0 ? prediction.scores : [{ label: prediction.label, score: 1 }]).map(
+      entry => [entry.label, entry.score] as const,
+    ),
+  );
+
+const toScores = (map: Map<string, number>): EmotionScore[] =>
+  Array.from(map, ([label, score]) => ({ label, score })).sort((a, b) => b.score - a.score);
+
+// A prediction built from smoothed scores, keeping the raw one's endpoint
+const withScores = (raw: EmotionPrediction, label: string, scores: Map<string, number>): EmotionPrediction => ({
+  endpoint: raw.endpoint,
+  label,
+  scores: raw.scores.length > 0 ? toScores(scores) : [],
+  confidence: raw.confidence === undefined ? undefined : scores.get(label) ?? 0,
+});
+
+const meanScores = (recent: EmotionPrediction[]) => {
+  const sums = new Map<string, number>();
+  for (const prediction of recent) {
+    scoreMap(prediction).forEach((score, label) => sums.set(label, (sums.get(label) ?? 0) + score));
+  }
+  sums.forEach((sum, label) => sums.set(label, sum / recent.length));
+  return sums;
+};
+
+function majoritySmoother(window: number): Smoother {
+  const recent: EmotionPrediction[] = [];
+  return {
+    push(prediction) {
+      recent.push(prediction);
+      if (recent.length > Math.max(1, window)) {
+        recent.shift();
+      }
+      const votes = new Map<string, number>();
+      recent.forEach(item => votes.set(item.label, (votes.get(item.label) ?? 0) + 1));
+      // Ties go to whichever of the tied labels was seen most recently
+      let winner = prediction.label;
+      for (let i = recent.length - 1; i >= 0; i--) {
+        const label = recent[i].label;
+        if ((votes.get(label) ?? 0) > (votes.get(winner) ?? 0)) {
+          winner = label;
+        }
+      }
+      return withScores(prediction, winner, meanScores(recent));
+    },
+  };
+}
+
+function emaSmoother(alpha: number): Smoother {
+  let average: Map<string, number> | null = null;
+  const weight = Math.min(1, Math.max(0, alpha));
+  return {
+    push(prediction) {
+      const current = scoreMap(prediction);
+      if (!average) {
+        average = current;
+      } else {
+        const next = new Map<string, number>();
+        for (const label of new Set([...average.keys(), ...current.keys()])) {
+          next.set(label, weight * (current.get(label) ?? 0) + (1 - weight) * (average.get(label) ?? 0));
+        }
+        average = next;
+      }
+      const [top] = toScores(average);
+      return withScores(prediction, top.label, average);
+    },
+  };
+}
+
+function hysteresisSmoother(count: number): Smoother {
+  let held: string | null = null;
+  let challenger: string | null = null;
+  let streak = 0;
+  return {
+    push(prediction) {
+      if (held === null || prediction.label === held) {
+        held = prediction.label;
+        challenger = null;
+        streak = 0;
+      } else {
+        streak = prediction.label === challenger ? streak + 1 : 1;
+        challenger = prediction.label;
+        if (streak >= Math.max(1, count)) {
+          held = challenger;
+          challenger = null;
+          streak = 0;
+        }
+      }
+      return withScores(prediction, held, scoreMap(prediction));
+    },
+  };
+}
+
+export function createSmoother(options: SmoothingOptions = DEFAULT_SMOOTHING_OPTIONS): Smoother {
+  switch (options.strategy) {
+    case 'none':
+      return { push: prediction => prediction };
+    case 'majority':
+      return majoritySmoother(options.window);
+    case 'ema':
+      return emaSmoother(options.alpha);
+    case 'hysteresis':
+      return hysteresisSmoother(options.hysteresisCount);
+  }
+}
+
+// Run each modality's results through its own smoother, in order; the output lines up with the input
+export function smoothSequence<T extends { modality: Modality; prediction: EmotionPrediction }>(
+  items: T[],
+  options: SmoothingOptions,
+): EmotionPrediction[] {
+  const smoothers: Partial<Record<Modality, Smoother>> = {};
+  return items.map(item => {
+    const smoother = (smoothers[item.modality] ??= createSmoother(options));
+    return smoother.push(item.prediction);
+  });
+}
+
+// The timeline with each prediction replaced by its smoothed value
+export const smoothTimeline = (timeline: TimedPrediction[], options: SmoothingOptions): TimedPrediction[] => {
+  const smoothed = smoothSequence(timeline, options);
+  return timeline.map((entry, index) => ({ ...entry, prediction: smoothed[index] }));
+};
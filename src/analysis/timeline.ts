@@ -0,0 +1,23 @@
+import type { EmotionPrediction } from '../api/emotionClient';
+import type { Modality } from '../state/ResultsContext';
+
+// A prediction pinned to the span of media it was computed from, in seconds
+export interface TimedPrediction {
+  modality: Modality;
+  start: number;
+  duration: number;
+  prediction: EmotionPrediction;
+}
+
+// Keep entries ordered by start; a new result for the same modality and start replaces the old one
+export const insertTimed = (timeline: TimedPrediction[], entry: TimedPrediction): TimedPrediction[] => {
+  const rest = timeline.filter(item => !(item.modality === entry.modality && item.start === entry.start));
+  const index = rest.findIndex(item => item.start > entry.start);
+  return index === -1 ? [...rest, entry] : [...rest.slice(0, index), entry, ...rest.slice(index)];
+};
+
+export const timelineFor = (timeline: TimedPrediction[], modality: Modality) =>
+  timeline.filter(item => item.modality === modality);
+
+export const timelineEnd = (timeline: TimedPrediction[]) =>
+  timeline.reduce((end, item) => Math.max(end, item.start + item.duration), 0);
@@ -0,0 +1,234 @@
+import { FileSystem } from 'react-native-file-access';
+import { bytesToBase64 } from '../audio/base64';
+import { tempFiles } from '../storage/tempFiles';
+import { EmotionApiError } from './errors';
+
+// A file the backend should classify; `uri` must be readable by RN's networking layer
+export interface UploadFile {
+  uri: string;
+  type: string;
+  name: string;
+}
+
+// Contents already in memory, such as a live microphone window. The socket sends `bytes` as they are;
+// HTTP uploads `uri` when there's a copy on disk and otherwise writes one just for the request.
+export interface UploadBytes {
+  bytes: Uint8Array;
+  type: string;
+  name: string;
+  uri?: string;
+}
+
+export type UploadSource = UploadFile | UploadBytes;
+
+export const isUploadBytes = (source: UploadSource): source is UploadBytes => 'bytes' in source;
+
+// Per-class scores, either as a `{ label: probability }` map or a list of pairs
+export type ScoreDistribution = Record<string, number> | Array<{ label: string; score: number }>;
+
+// `/predict-face` and `/predict-audio` answer with `emotion`
+export interface EmotionResponse {
+  emotion: string;
+  scores?: ScoreDistribution;
+  probabilities?: ScoreDistribution;
+}
+
+// `/predict_image` and `/predict` answer with `classification`
+export interface ClassificationResponse {
+  classification: string;
+  scores?: ScoreDistribution;
+  probabilities?: ScoreDistribution;
+}
+
+export type EmotionEndpoint = 'predict-face' | 'predict-audio' | 'predict_image' | 'predict';
+
+export interface EmotionScore {
+  label: string;
+  score: number;
+}
+
+export interface EmotionPrediction {
+  endpoint: EmotionEndpoint;
+  label: string;
+  // Sorted highest first; empty when the backend only sent a label
+  scores: EmotionScore[];
+  // Score of `label`, or undefined when the backend sent no distribution
+  confidence?: number;
+}
+
+// Bytes of the request body sent so far; `total` is 0 when the size isn't known
+export interface UploadProgress {
+  sent: number;
+  total: number;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+export interface ClientOptions {
+  // Whole-request limit, from the first byte sent to the last byte received
+  timeoutMs?: number;
+}
+
+export const DEFAULT_TIMEOUT_MS = 30000;
+
+export interface EmotionClient {
+  predictFace(file: UploadSource, options?: RequestOptions): Promise<EmotionPrediction>;
+  predictAudio(file: UploadSource, options?: RequestOptions): Promise<EmotionPrediction>;
+  predictImage(file: UploadSource, options?: RequestOptions): Promise<EmotionPrediction>;
+  predictAudioChunk(file: UploadSource, options?: RequestOptions): Promise<EmotionPrediction>;
+}
+
+interface EndpointSpec {
+  field: 'image_file' | 'audio_file';
+  labelKey: 'emotion' | 'classification';
+}
+
+const ENDPOINTS: Record<EmotionEndpoint, EndpointSpec> = {
+  'predict-face': { field: 'image_file', labelKey: 'emotion' },
+  'predict-audio': { field: 'audio_file', labelKey: 'emotion' },
+  predict_image: { field: 'image_file', labelKey: 'classification' },
+  predict: { field: 'audio_file', labelKey: 'classification' },
+};
+
+// Keep error bodies short; a 500 from a dev server can be a full HTML page
+const MAX_ERROR_BODY = 500;
+
+const parseJson = (endpoint: EmotionEndpoint, text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new EmotionApiError('parse', endpoint, 'Response is not valid JSON', {
+      body: text.slice(0, MAX_ERROR_BODY),
+      cause: error,
+    });
+  }
+};
+
+const parseScores = (endpoint: EmotionEndpoint, raw: unknown): EmotionScore[] => {
+  if (raw === undefined || raw === null) {
+    return [];
+  }
+  if (typeof raw !== 'object') {
+    throw new EmotionApiError('validation', endpoint, 'scores must be an object or a list');
+  }
+  const entries: Array<[unknown, unknown]> = Array.isArray(raw)
+    ? raw.map(item => [item?.label, item?.score])
+    : Object.entries(raw as Record<string, unknown>);
+  const scores = entries.map(([label, score]) => {
+    if (typeof label !== 'string' || typeof score !== 'number' || !Number.isFinite(score)) {
+      throw new EmotionApiError('validation', endpoint, 'scores must pair labels with numbers');
+    }
+    return { label, score };
+  });
+  return scores.sort((a, b) => b.score - a.score);
+};
+
+// Check the decoded body has the label key this endpoint promises
+export const validatePrediction = (endpoint: EmotionEndpoint, payload: unknown): EmotionPrediction => {
+  const { labelKey } = ENDPOINTS[endpoint];
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    throw new EmotionApiError('validation', endpoint, 'expected a JSON object');
+  }
+  const body = payload as Record<string, unknown>;
+  const label = body[labelKey];
+  if (typeof label !== 'string' || label.trim() === '') {
+    throw new EmotionApiError('validation', endpoint, `missing "${labelKey}" string`);
+  }
+  const scores = parseScores(endpoint, body.scores ?? body.probabilities);
+  const confidence = scores.find(entry => entry.label === label)?.score;
+  return { endpoint, label, scores, confidence };
+};
+
+// XMLHttpRequest rather than fetch, since only XHR reports upload progress
+const send = (
+  endpoint: EmotionEndpoint,
+  url: string,
+  body: FormData,
+  timeoutMs: number,
+  { signal, onProgress }: RequestOptions,
+) =>
+  new Promise<{ status: number; text: string }>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new EmotionApiError('cancelled', endpoint, 'Request cancelled'));
+      return;
+    }
+    const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+    const settle = (finish: () => void) => {
+      signal?.removeEventListener('abort', abort);
+      finish();
+    };
+
+    xhr.open('POST', url);
+    xhr.setRequestHeader('Content-Type', 'multipart/form-data');
+    xhr.timeout = timeoutMs;
+    if (onProgress) {
+      xhr.upload.onprogress = event =>
+        onProgress({ sent: event.loaded, total: event.lengthComputable ? event.total : 0 });
+    }
+    xhr.onload = () => settle(() => resolve({ status: xhr.status, text: xhr.responseText ?? '' }));
+    xhr.onerror = () => settle(() => reject(new EmotionApiError('network', endpoint, 'Network request failed')));
+    xhr.ontimeout = () =>
+      settle(() =>
+        reject(new EmotionApiError('timeout', endpoint, `No response within ${Math.round(timeoutMs / 1000)}s`)),
+      );
+    xhr.onabort = () => settle(() => reject(new EmotionApiError('cancelled', endpoint, 'Request cancelled')));
+    signal?.addEventListener('abort', abort);
+    xhr.send(body);
+  });
+
+// Multipart bodies need a file, so in-memory contents without a copy on disk get a temporary one
+async function withUploadFile<T>(source: UploadSource, upload: (file: UploadFile) => Promise<T>): Promise<T> {
+  if (!isUploadBytes(source)) {
+    return upload(source);
+  }
+  const { bytes, uri, type, name } = source;
+  if (uri) {
+    return upload({ uri, type, name });
+  }
+  const temp = tempFiles.create('http-upload');
+  try {
+    const path = await temp.file(name);
+    await FileSystem.writeFile(path, bytesToBase64(bytes), 'base64');
+    return await upload({ uri: `file://${path}`, type, name });
+  } finally {
+    await temp.dispose();
+  }
+}
+
+export function createEmotionClient(baseUrl: string, { timeoutMs = DEFAULT_TIMEOUT_MS }: ClientOptions = {}): EmotionClient {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const post = (endpoint: EmotionEndpoint, source: UploadSource, options: RequestOptions = {}) =>
+    withUploadFile(source, file => postFile(endpoint, file, options));
+
+  const postFile = async (endpoint: EmotionEndpoint, file: UploadFile, options: RequestOptions) => {
+    const formData = new FormData();
+    formData.append(ENDPOINTS[endpoint].field, {
+      uri: file.uri,
+      type: file.type,
+      name: file.name,
+    });
+
+    const { status, text } = await send(endpoint, `${root}/${endpoint}`, formData, timeoutMs, options);
+
+    if (status < 200 || status >= 300) {
+      throw new EmotionApiError('http', endpoint, `HTTP ${status}`, {
+        status,
+        body: text.slice(0, MAX_ERROR_BODY),
+      });
+    }
+
+    return validatePrediction(endpoint, parseJson(endpoint, text));
+  };
+
+  return {
+    predictFace: (file, options) => post('predict-face', file, options),
+    predictAudio: (file, options) => post('predict-audio', file, options),
+    predictImage: (file, options) => post('predict_image', file, options),
+    predictAudioChunk: (file, options) => post('predict', file, options),
+  };
+}
@@ -0,0 +1,50 @@
+export type EmotionApiErrorKind = 'http' | 'parse' | 'validation' | 'network' | 'timeout' | 'cancelled';
+
+// Raised by the emotion client for anything other than a well-formed prediction
+export class EmotionApiError extends Error {
+  readonly kind: EmotionApiErrorKind;
+  readonly endpoint: string;
+  readonly status?: number;
+  readonly body?: string;
+
+  constructor(
+    kind: EmotionApiErrorKind,
+    endpoint: string,
+    message: string,
+    options: { status?: number; body?: string; cause?: unknown } = {},
+  ) {
+    super(message);
+    this.name = 'EmotionApiError';
+    this.kind = kind;
+    this.endpoint = endpoint;
+    this.status = options.status;
+    this.body = options.body;
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+export const isEmotionApiError = (error: unknown): error is EmotionApiError =>
+  error instanceof EmotionApiError;
+
+// Short, user-facing description of any error thrown while talking to the backend
+export const describeApiError = (error: unknown): string => {
+  if (!isEmotionApiError(error)) {
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+  switch (error.kind) {
+    case 'http':
+      return `Server returned ${error.status} for ${error.endpoint}`;
+    case 'parse':
+      return `Server sent an unreadable response for ${error.endpoint}`;
+    case 'validation':
+      return `Unexpected response from ${error.endpoint}: ${error.message}`;
+    case 'network':
+      return `Could not reach the server (${error.endpoint})`;
+    case 'timeout':
+      return `${error.endpoint} timed out: ${error.message}`;
+    case 'cancelled':
+      return 'Cancelled';
+  }
+};
@@ -0,0 +1,45 @@
+import type { EmotionEndpoint } from './emotionClient';
+
+export type EndpointHealthStatus = 'ok' | 'missing' | 'error' | 'unreachable';
+
+export interface EndpointHealth {
+  endpoint: EmotionEndpoint;
+  status: EndpointHealthStatus;
+  httpStatus?: number;
+  latencyMs: number;
+  message: string;
+}
+
+const DEFAULT_HEALTH_TIMEOUT_MS = 5000;
+
+// The predict routes are POST-only, so a GET answering 405 still proves the route exists
+export async function checkEndpoint(
+  baseUrl: string,
+  endpoint: EmotionEndpoint,
+  timeoutMs = DEFAULT_HEALTH_TIMEOUT_MS,
+): Promise<EndpointHealth> {
+  const started = Date.now();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/${endpoint}`, {
+      method: 'GET',
+      signal: controller.signal,
+    });
+    const latencyMs = Date.now() - started;
+    const httpStatus = response.status;
+    if (response.ok || httpStatus === 405) {
+      return { endpoint, status: 'ok', httpStatus, latencyMs, message: `Reachable (${latencyMs} ms)` };
+    }
+    if (httpStatus === 404) {
+      return { endpoint, status: 'missing', httpStatus, latencyMs, message: 'Route not found (404)' };
+    }
+    return { endpoint, status: 'error', httpStatus, latencyMs, message: `Server error (${httpStatus})` };
+  } catch {
+    const latencyMs = Date.now() - started;
+    const message = controller.signal.aborted ? `Timed out after ${timeoutMs} ms` : 'Could not connect';
+    return { endpoint, status: 'unreachable', latencyMs, message };
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,86 @@
+import type { EmotionClient } from './emotionClient';
+import { EmotionApiError, isEmotionApiError } from './errors';
+
+export interface RetryPolicy {
+  // Attempts after the first one
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { retries: 3, baseDelayMs: 500, maxDelayMs: 8000 };
+
+// Worth another try: the request may succeed unchanged once the server or network recovers
+export const isTransientError = (error: unknown): boolean => {
+  if (!isEmotionApiError(error)) {
+    return false;
+  }
+  switch (error.kind) {
+    case 'network':
+    case 'timeout':
+      return true;
+    case 'http':
+      return error.status === 408 || error.status === 429 || (error.status ?? 0) >= 500;
+    default:
+      return false;
+  }
+};
+
+// The device couldn't reach the server at all, as opposed to the server failing
+export const isOfflineError = (error: unknown): boolean => isEmotionApiError(error) && error.kind === 'network';
+
+// Exponential backoff with "equal jitter": half the step is fixed, half random, so
+// clients that failed together don't all come back at the same moment
+export const backoffDelay = (attempt: number, policy: RetryPolicy, random: () => number = Math.random) => {
+  const step = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return step / 2 + random() * (step / 2);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<boolean>(resolve => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+
+// Run `attempt` until it succeeds, fails with a non-transient error, runs out of retries or is aborted
+export async function withRetry<T>(
+  attempt: () => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  signal?: AbortSignal,
+): Promise<T> {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      if (retry >= policy.retries || !isTransientError(error) || signal?.aborted) {
+        throw error;
+      }
+      const delay = backoffDelay(retry, policy);
+      console.log(`Retrying in ${Math.round(delay)}ms after: ${(error as Error).message}`);
+      if (!(await sleep(delay, signal))) {
+        throw new EmotionApiError('cancelled', (error as EmotionApiError).endpoint, 'Request cancelled');
+      }
+    }
+  }
+}
+
+// Same client, with every request retried under `policy`
+export function retryingClient(client: EmotionClient, policy: RetryPolicy = DEFAULT_RETRY_POLICY): EmotionClient {
+  const wrap =
+    (method: EmotionClient['predictFace']): EmotionClient['predictFace'] =>
+    (file, options) =>
+      withRetry(() => method(file, options), policy, options?.signal);
+  return {
+    predictFace: wrap(client.predictFace),
+    predictAudio: wrap(client.predictAudio),
+    predictImage: wrap(client.predictImage),
+    predictAudioChunk: wrap(client.predictAudioChunk),
+  };
+}
@@ -0,0 +1,245 @@
+import { FileSystem } from 'react-native-file-access';
+import { base64ToBytes } from '../audio/base64';
+import { decodeWavSamples, PCM_SAMPLE_RATE } from '../audio/wav';
+import {
+  DEFAULT_TIMEOUT_MS,
+  EmotionClient,
+  EmotionEndpoint,
+  isUploadBytes,
+  RequestOptions,
+  UploadSource,
+  validatePrediction,
+} from './emotionClient';
+import { EmotionApiError } from './errors';
+import { isOfflineError } from './retry';
+
+// Route the backend serves the socket on, next to the HTTP endpoints
+export const STREAM_PATH = 'stream';
+
+// After the socket fails, requests go over HTTP for this long before the socket is tried again
+export const SOCKET_RETRY_MS = 30000;
+
+export const PCM_CONTENT_TYPE = `audio/pcm;rate=${PCM_SAMPLE_RATE};bits=16;channels=1`;
+
+// Sent ahead of each binary payload; `id` tags the reply
+export interface StreamHeader {
+  id: number;
+  endpoint: EmotionEndpoint;
+  contentType: string;
+}
+
+// `result` is the same body the HTTP endpoint would answer with
+export type StreamReply =
+  | { id: number; result: unknown }
+  | { id: number; error: string; status?: number };
+
+export const streamUrl = (baseUrl: string) => `${baseUrl.replace(/\/+$/, '').replace(/^http/, 'ws')}/${STREAM_PATH}`;
+
+// Headers only hold numbers, endpoint names and MIME types, so plain ASCII needs no text codec
+const asciiBytes = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+// One binary message: 4-byte little-endian header length, the JSON header, then the payload
+export function encodeStreamMessage(header: StreamHeader, payload: Uint8Array): Uint8Array {
+  const json = asciiBytes(JSON.stringify(header));
+  const message = new Uint8Array(4 + json.length + payload.length);
+  new DataView(message.buffer).setUint32(0, json.length, true);
+  message.set(json, 4);
+  message.set(payload, 4 + json.length);
+  return message;
+}
+
+export function decodeStreamMessage(message: Uint8Array): { header: StreamHeader; payload: Uint8Array } {
+  const length = new DataView(message.buffer, message.byteOffset, message.byteLength).getUint32(0, true);
+  const header = JSON.parse(String.fromCharCode(...message.subarray(4, 4 + length))) as StreamHeader;
+  return { header, payload: message.subarray(4 + length) };
+}
+
+interface PendingRequest {
+  endpoint: EmotionEndpoint;
+  resolve: (body: unknown) => void;
+  reject: (error: EmotionApiError) => void;
+}
+
+// A persistent connection multiplexing prediction requests. It connects on the first request
+// and again on the next one after it drops; requests in flight when it drops fail as 'network'.
+export class EmotionSocket {
+  private current: WebSocket | null = null;
+  private opening: Promise<WebSocket> | null = null;
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingRequest>();
+
+  constructor(readonly url: string, private readonly timeoutMs: number = DEFAULT_TIMEOUT_MS) {}
+
+  async request(
+    endpoint: EmotionEndpoint,
+    contentType: string,
+    payload: Uint8Array,
+    { signal }: RequestOptions = {},
+  ): Promise<unknown> {
+    if (signal?.aborted) {
+      throw new EmotionApiError('cancelled', endpoint, 'Request cancelled');
+    }
+    const socket = await this.connect(endpoint);
+    const id = this.nextId++;
+    const message = encodeStreamMessage({ id, endpoint, contentType }, payload);
+
+    return new Promise<unknown>((resolve, reject) => {
+      const abort = () => settle(() => reject(new EmotionApiError('cancelled', endpoint, 'Request cancelled')));
+      const timer = setTimeout(
+        () =>
+          settle(() =>
+            reject(new EmotionApiError('timeout', endpoint, `No response within ${Math.round(this.timeoutMs / 1000)}s`)),
+          ),
+        this.timeoutMs,
+      );
+      const settle = (finish: () => void) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', abort);
+        this.pending.delete(id);
+        finish();
+      };
+      this.pending.set(id, {
+        endpoint,
+        resolve: body => settle(() => resolve(body)),
+        reject: error => settle(() => reject(error)),
+      });
+      signal?.addEventListener('abort', abort);
+      socket.send(message.buffer);
+    });
+  }
+
+  close() {
+    const socket = this.current;
+    this.current = null;
+    this.opening = null;
+    socket?.close();
+    this.failAll('Connection closed');
+  }
+
+  // Resolves with the open socket; reused until it closes
+  private connect(endpoint: EmotionEndpoint): Promise<WebSocket> {
+    if (!this.opening) {
+      let socket: WebSocket;
+      try {
+        socket = new WebSocket(this.url);
+      } catch (error) {
+        // A URL the platform refuses; nothing was opened, so the next request tries again
+        return Promise.reject(new EmotionApiError('network', endpoint, `Could not open ${this.url}`, { cause: error }));
+      }
+      this.opening = new Promise<WebSocket>((resolve, reject) => {
+        let open = false;
+        this.current = socket;
+        socket.binaryType = 'arraybuffer';
+        const timer = setTimeout(() => socket.close(), this.timeoutMs);
+        socket.onopen = () => {
+          clearTimeout(timer);
+          open = true;
+          resolve(socket);
+        };
+        socket.onmessage = event => this.receive(event.data);
+        socket.onclose = () => {
+          clearTimeout(timer);
+          if (this.current === socket) {
+            this.current = null;
+            this.opening = null;
+          }
+          if (open) {
+            this.failAll('Connection lost');
+          } else {
+            reject(new EmotionApiError('network', endpoint, `Could not open ${this.url}`));
+          }
+        };
+        // React Native follows every error with a close, which does the cleanup
+        socket.onerror = () => console.log(`Socket error on ${this.url}`);
+      });
+    }
+    return this.opening;
+  }
+
+  private receive(data: unknown) {
+    if (typeof data !== 'string') {
+      return;
+    }
+    let reply: StreamReply;
+    try {
+      reply = JSON.parse(data);
+    } catch {
+      console.log('Ignoring unreadable socket message');
+      return;
+    }
+    const request = this.pending.get(reply?.id);
+    if (!request) {
+      return;
+    }
+    if ('error' in reply) {
+      const kind = reply.status !== undefined ? 'http' : 'validation';
+      request.reject(new EmotionApiError(kind, request.endpoint, reply.error, { status: reply.status }));
+    } else {
+      request.resolve(reply.result);
+    }
+  }
+
+  private failAll(message: string) {
+    for (const request of Array.from(this.pending.values())) {
+      request.reject(new EmotionApiError('network', request.endpoint, message));
+    }
+  }
+}
+
+// Contents to stream: in-memory bytes are sent without touching the disk, files are read once. WAV audio
+// goes as bare PCM, everything else as-is.
+const readPayload = async (file: UploadSource): Promise<{ contentType: string; payload: Uint8Array }> => {
+  const bytes = isUploadBytes(file)
+    ? file.bytes
+    : base64ToBytes(await FileSystem.readFile(file.uri.replace(/^file:\/\//, ''), 'base64'));
+  if (file.type === 'audio/wav') {
+    const samples = decodeWavSamples(bytes);
+    return { contentType: PCM_CONTENT_TYPE, payload: new Uint8Array(samples.buffer) };
+  }
+  return { contentType: file.type, payload: bytes };
+};
+
+// The EmotionClient interface over a socket; replies are validated like HTTP responses
+export function createSocketEmotionClient(socket: EmotionSocket): EmotionClient {
+  const post = async (endpoint: EmotionEndpoint, file: UploadSource, options?: RequestOptions) => {
+    const { contentType, payload } = await readPayload(file);
+    return validatePrediction(endpoint, await socket.request(endpoint, contentType, payload, options));
+  };
+  return {
+    predictFace: (file, options) => post('predict-face', file, options),
+    predictAudio: (file, options) => post('predict-audio', file, options),
+    predictImage: (file, options) => post('predict_image', file, options),
+    predictAudioChunk: (file, options) => post('predict', file, options),
+  };
+}
+
+// Prefer `primary`; when it can't connect, send through `fallback` and leave `primary` alone for `retryMs`
+export function fallbackClient(
+  primary: EmotionClient,
+  fallback: EmotionClient,
+  retryMs: number = SOCKET_RETRY_MS,
+): EmotionClient {
+  let downUntil = 0;
+  const wrap =
+    (method: keyof EmotionClient): EmotionClient['predictFace'] =>
+    async (file, options) => {
+      if (Date.now() >= downUntil) {
+        try {
+          return await primary[method](file, options);
+        } catch (error) {
+          if (!isOfflineError(error)) {
+            throw error;
+          }
+          console.log(`Streaming unavailable, using HTTP for ${Math.round(retryMs / 1000)}s`);
+          downUntil = Date.now() + retryMs;
+        }
+      }
+      return fallback[method](file, options);
+    };
+  return {
+    predictFace: wrap('predictFace'),
+    predictAudio: wrap('predictAudio'),
+    predictImage: wrap('predictImage'),
+    predictAudioChunk: wrap('predictAudioChunk'),
+  };
+}
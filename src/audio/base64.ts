@@ -0,0 +1,48 @@
+/* eslint-disable no-bitwise */
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const LOOKUP = new Uint8Array(128);
+for (let i = 0; i < ALPHABET.length; i++) {
+  LOOKUP[ALPHABET.charCodeAt(i)] = i;
+}
+
+// Byte <-> base64 conversion without Buffer, which React Native doesn't provide
+export function bytesToBase64(bytes: Uint8Array): string {
+  let output = '';
+  let i = 0;
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    output += ALPHABET[n >> 18] + ALPHABET[(n >> 12) & 63] + ALPHABET[(n >> 6) & 63] + ALPHABET[n & 63];
+  }
+  const remaining = bytes.length - i;
+  if (remaining === 1) {
+    const n = bytes[i] << 16;
+    output += ALPHABET[n >> 18] + ALPHABET[(n >> 12) & 63] + '==';
+  } else if (remaining === 2) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8);
+    output += ALPHABET[n >> 18] + ALPHABET[(n >> 12) & 63] + ALPHABET[(n >> 6) & 63] + '=';
+  }
+  return output;
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let byteIndex = 0;
+  for (let i = 0; i < clean.length; i += 4) {
+    const n =
+      (LOOKUP[clean.charCodeAt(i)] << 18) |
+      (LOOKUP[clean.charCodeAt(i + 1)] << 12) |
+      ((i + 2 < clean.length ? LOOKUP[clean.charCodeAt(i + 2)] : 0) << 6) |
+      (i + 3 < clean.length ? LOOKUP[clean.charCodeAt(i + 3)] : 0);
+    bytes[byteIndex++] = n >> 16;
+    if (i + 2 < clean.length) {
+      bytes[byteIndex++] = (n >> 8) & 255;
+    }
+    if (i + 3 < clean.length) {
+      bytes[byteIndex++] = n & 255;
+    }
+  }
+  return bytes;
+}
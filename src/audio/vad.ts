@@ -0,0 +1,72 @@
+import { PCM_SAMPLE_RATE } from './wav';
+
+// Energy / zero-crossing voice activity detection over short frames of 16-bit PCM
+export interface VadOptions {
+  // Frames quieter than this RMS level, in dBFS, count as silence
+  energyThresholdDb: number;
+  // Loud frames crossing zero more often than this (share of sample pairs) are hiss or noise, not voice
+  maxZeroCrossingRate: number;
+  // Share of voiced frames needed for the whole window to count as speech
+  minSpeechRatio: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  energyThresholdDb: -45,
+  maxZeroCrossingRate: 0.35,
+  minSpeechRatio: 0.15,
+};
+
+export const VAD_FRAME_MS = 20;
+
+export interface VadResult {
+  speech: boolean;
+  // Share of frames that looked voiced, 0..1
+  speechRatio: number;
+  // Loudest frame's RMS level in dBFS; -Infinity for digital silence
+  peakDb: number;
+}
+
+// RMS level of `samples` relative to full scale
+export const levelDb = (samples: Int16Array): number => {
+  if (samples.length === 0) {
+    return -Infinity;
+  }
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return 20 * Math.log10(Math.sqrt(sum / samples.length) / 32768);
+};
+
+export const zeroCrossingRate = (samples: Int16Array): number => {
+  let crossings = 0;
+  for (let i = 1; i < samples.length; i++) {
+    if (samples[i - 1] < 0 !== samples[i] < 0) {
+      crossings++;
+    }
+  }
+  return samples.length > 1 ? crossings / (samples.length - 1) : 0;
+};
+
+// Split the window into VAD_FRAME_MS frames and vote on how many sound like a voice
+export function detectSpeech(
+  samples: Int16Array,
+  options: VadOptions = DEFAULT_VAD_OPTIONS,
+  sampleRate = PCM_SAMPLE_RATE,
+): VadResult {
+  const frameSize = Math.max(1, Math.round((VAD_FRAME_MS / 1000) * sampleRate));
+  let frames = 0;
+  let voiced = 0;
+  let peakDb = -Infinity;
+  for (let start = 0; start + frameSize <= samples.length; start += frameSize) {
+    const frame = samples.subarray(start, start + frameSize);
+    const level = levelDb(frame);
+    peakDb = Math.max(peakDb, level);
+    frames++;
+    if (level >= options.energyThresholdDb && zeroCrossingRate(frame) <= options.maxZeroCrossingRate) {
+      voiced++;
+    }
+  }
+  const speechRatio = frames > 0 ? voiced / frames : 0;
+  return { speech: frames > 0 && speechRatio >= options.minSpeechRatio, speechRatio, peakDb };
+}
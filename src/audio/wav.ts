@@ -0,0 +1,62 @@
+export const PCM_SAMPLE_RATE = 16000;
+
+const HEADER_BYTES = 44;
+
+// Wraps 16-bit PCM samples in a canonical RIFF/WAVE header
+export function encodeWav(samples: Int16Array, sampleRate = PCM_SAMPLE_RATE, channels = 1): Uint8Array {
+  const dataBytes = samples.length * 2;
+  const buffer = new ArrayBuffer(HEADER_BYTES + dataBytes);
+  const view = new DataView(buffer);
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * 2, true); // byte rate
+  view.setUint16(32, channels * 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeAscii(36, 'data');
+  view.setUint32(40, dataBytes, true);
+  for (let i = 0; i < samples.length; i++) {
+    view.setInt16(HEADER_BYTES + i * 2, samples[i], true);
+  }
+  return new Uint8Array(buffer);
+}
+
+// Little-endian 16-bit PCM bytes, as delivered by AudioRecord's `data` event
+export function pcmBytesToSamples(bytes: Uint8Array): Int16Array {
+  const samples = new Int16Array(Math.floor(bytes.length / 2));
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(i * 2, true);
+  }
+  return samples;
+}
+
+// The samples of a 16-bit PCM WAV file, skipping any chunks (LIST, fact...) before `data`
+export function decodeWavSamples(bytes: Uint8Array): Int16Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+  if (bytes.length < 12 || ascii(0) !== 'RIFF' || ascii(8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    if (ascii(offset) === 'data') {
+      return pcmBytesToSamples(bytes.subarray(offset + 8, Math.min(bytes.length, offset + 8 + size)));
+    }
+    // Chunks are padded to an even length
+    offset += 8 + size + (size % 2);
+  }
+  throw new Error('WAV file has no data chunk');
+}
@@ -0,0 +1,69 @@
+export interface AudioWindow {
+  samples: Int16Array;
+  // Position of the window's first sample since capture started
+  startSample: number;
+}
+
+// Cuts a continuous sample stream into fixed-length windows that start every `hopSamples`.
+// Only the last `windowSamples` are retained, in a ring buffer, so memory stays constant.
+export class AudioWindower {
+  private readonly ring: Int16Array;
+  private written = 0;
+  private nextEnd: number;
+
+  constructor(readonly windowSamples: number, readonly hopSamples: number) {
+    if (windowSamples <= 0 || hopSamples <= 0) {
+      throw new Error('Window and hop must be positive');
+    }
+    if (hopSamples > windowSamples) {
+      throw new Error('Hop cannot be longer than the window');
+    }
+    this.ring = new Int16Array(windowSamples);
+    this.nextEnd = windowSamples;
+  }
+
+  get samplesWritten() {
+    return this.written;
+  }
+
+  // Append samples and return every window completed by them, oldest first
+  push(samples: Int16Array): AudioWindow[] {
+    const windows: AudioWindow[] = [];
+    let offset = 0;
+    while (offset < samples.length) {
+      // Copy up to the next window boundary so a window is cut exactly when it fills
+      const take = Math.min(samples.length - offset, this.nextEnd - this.written);
+      this.write(samples.subarray(offset, offset + take));
+      offset += take;
+      if (this.written === this.nextEnd) {
+        windows.push({ samples: this.snapshot(), startSample: this.written - this.windowSamples });
+        this.nextEnd += this.hopSamples;
+      }
+    }
+    return windows;
+  }
+
+  reset() {
+    this.written = 0;
+    this.nextEnd = this.windowSamples;
+    this.ring.fill(0);
+  }
+
+  private write(chunk: Int16Array) {
+    const size = this.ring.length;
+    for (let i = 0; i < chunk.length; i++) {
+      this.ring[(this.written + i) % size] = chunk[i];
+    }
+    this.written += chunk.length;
+  }
+
+  // The last `windowSamples` samples in chronological order
+  private snapshot(): Int16Array {
+    const size = this.ring.length;
+    const start = this.written % size;
+    const out = new Int16Array(size);
+    out.set(this.ring.subarray(start));
+    out.set(this.ring.subarray(0, start), size - start);
+    return out;
+  }
+}
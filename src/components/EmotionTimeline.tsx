@@ -0,0 +1,174 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { ratePrediction } from '../analysis/confidence';
+import { emotionColor, UNCERTAIN_COLOR } from '../analysis/emotionColors';
+import type { FusedSegment } from '../analysis/fusion';
+import { TimedPrediction, timelineEnd, timelineFor } from '../analysis/timeline';
+import type { MediaSpan, Modality } from '../state/ResultsContext';
+
+const PX_PER_SECOND = 24;
+const ROW_HEIGHT = 28;
+const LABEL_WIDTH = 48;
+
+const ROWS: Array<{ modality: Modality; title: string }> = [
+  { modality: 'image', title: 'Face' },
+  { modality: 'audio', title: 'Voice' },
+];
+
+interface Props {
+  timeline: TimedPrediction[];
+  // Adds an "Overall" row when given
+  fused?: FusedSegment[];
+  // Audio spans skipped as silent, drawn in the voice row
+  silences?: MediaSpan[];
+  duration: number;
+  currentTime: number;
+  threshold: number;
+  onSeek: (time: number) => void;
+}
+
+const formatTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+// Face and voice results laid out against the video's time axis; tap a segment to seek there
+function EmotionTimeline({
+  timeline,
+  fused,
+  silences = [],
+  duration,
+  currentTime,
+  threshold,
+  onSeek,
+}: Props): React.JSX.Element {
+  const length = Math.max(duration, timelineEnd(timeline), 1);
+  const width = length * PX_PER_SECOND;
+  const labels = Array.from(new Set(timeline.map(item => item.prediction.label)));
+  const ticks = Array.from({ length: Math.floor(length / 5) + 1 }, (_, i) => i * 5);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.body}>
+        <View style={styles.rowTitles}>
+          <View style={styles.axisSpacer} />
+          {ROWS.map(row => (
+            <Text key={row.modality} style={styles.rowTitle}>
+              {row.title}
+            </Text>
+          ))}
+          {fused && <Text style={styles.rowTitle}>Overall</Text>}
+        </View>
+        <ScrollView horizontal showsHorizontalScrollIndicator>
+          <View style={{ width }}>
+            <View style={styles.axis}>
+              {ticks.map(tick => (
+                <Text key={tick} style={[styles.tick, { left: tick * PX_PER_SECOND }]}>
+                  {formatTime(tick)}
+                </Text>
+              ))}
+            </View>
+            {ROWS.map(row => (
+              <View key={row.modality} style={styles.track}>
+                {row.modality === 'audio' &&
+                  silences.map(span => (
+                    <View
+                      key={`silence-${span.start}`}
+                      style={[
+                        styles.segment,
+                        styles.silence,
+                        { left: span.start * PX_PER_SECOND, width: Math.max(2, span.duration * PX_PER_SECOND - 1) },
+                      ]}
+                    />
+                  ))}
+                {timelineFor(timeline, row.modality).map(item => {
+                  const rated = ratePrediction(item.prediction, threshold);
+                  return (
+                    <TouchableOpacity
+                      key={`${item.start}`}
+                      accessibilityLabel={`${row.title} ${rated.displayLabel} at ${formatTime(item.start)}`}
+                      onPress={() => onSeek(item.start)}
+                      style={[
+                        styles.segment,
+                        {
+                          left: item.start * PX_PER_SECOND,
+                          width: Math.max(2, item.duration * PX_PER_SECOND - 1),
+                          backgroundColor: rated.uncertain ? UNCERTAIN_COLOR : emotionColor(item.prediction.label),
+                        },
+                      ]}
+                    />
+                  );
+                })}
+              </View>
+            ))}
+            {fused && (
+              <View style={styles.track}>
+                {fused.map(item => {
+                  const uncertain = item.fused.confidence < threshold;
+                  return (
+                    <TouchableOpacity
+                      key={`${item.start}`}
+                      accessibilityLabel={`Overall ${uncertain ? 'uncertain' : item.fused.label} at ${formatTime(item.start)}`}
+                      onPress={() => onSeek(item.start)}
+                      style={[
+                        styles.segment,
+                        item.fused.agreement === 'disagree' && styles.disagree,
+                        {
+                          left: item.start * PX_PER_SECOND,
+                          width: Math.max(2, item.duration * PX_PER_SECOND - 1),
+                          backgroundColor: uncertain ? UNCERTAIN_COLOR : emotionColor(item.fused.label),
+                        },
+                      ]}
+                    />
+                  );
+                })}
+              </View>
+            )}
+            <View pointerEvents="none" style={[styles.playhead, { left: currentTime * PX_PER_SECOND }]} />
+          </View>
+        </ScrollView>
+      </View>
+      <View style={styles.legend}>
+        {labels.map(label => (
+          <View key={label} style={styles.legendItem}>
+            <View style={[styles.swatch, { backgroundColor: emotionColor(label) }]} />
+            <Text style={styles.legendText}>{label}</Text>
+          </View>
+        ))}
+        <View style={styles.legendItem}>
+          <View style={[styles.swatch, { backgroundColor: UNCERTAIN_COLOR }]} />
+          <Text style={styles.legendText}>uncertain</Text>
+        </View>
+        {silences.length > 0 && (
+          <View style={styles.legendItem}>
+            <View style={[styles.swatch, styles.silence]} />
+            <Text style={styles.legendText}>silence</Text>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
+
+export default EmotionTimeline;
+
+const styles = StyleSheet.create({
+  container: { width: '90%', backgroundColor: '#fff', borderRadius: 8, padding: 10 },
+  body: { flexDirection: 'row' },
+  rowTitles: { width: LABEL_WIDTH },
+  axisSpacer: { height: 18 },
+  rowTitle: { height: ROW_HEIGHT, lineHeight: ROW_HEIGHT, fontSize: 13, color: '#333', fontWeight: 'bold' },
+  axis: { height: 18 },
+  tick: { position: 'absolute', fontSize: 10, color: '#888' },
+  track: { height: ROW_HEIGHT, backgroundColor: '#f0f0f0', marginBottom: 0, borderBottomWidth: 1, borderColor: '#fff' },
+  segment: { position: 'absolute', top: 3, bottom: 3, borderRadius: 3 },
+  // Face and voice disagreed on this stretch
+  disagree: { borderWidth: 2, borderColor: '#E65100' },
+  // Not sent: no voice in this audio chunk
+  silence: { backgroundColor: '#fff', borderWidth: 1, borderColor: '#BDBDBD', borderStyle: 'dashed' },
+  playhead: { position: 'absolute', top: 14, bottom: 0, width: 2, backgroundColor: '#E53935' },
+  legend: { flexDirection: 'row', flexWrap: 'wrap', marginTop: 8 },
+  legendItem: { flexDirection: 'row', alignItems: 'center', marginRight: 10, marginVertical: 2 },
+  swatch: { width: 10, height: 10, borderRadius: 2, marginRight: 4 },
+  legendText: { fontSize: 12, color: '#555' },
+});
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import { formatPercent, ratePrediction } from '../analysis/confidence';
+import { emotionColor, UNCERTAIN_COLOR } from '../analysis/emotionColors';
+import { FaceFrame, fitFrame, mirrorBox } from '../faces/faceBoxes';
+
+interface Props {
+  frame: FaceFrame | null;
+  // How the preview scales the frame: letterboxed like a video player, or cropped like a camera preview
+  fit: 'contain' | 'cover';
+  threshold: number;
+  // The preview is shown flipped left to right (the front camera) while the frame's boxes are not
+  mirrored?: boolean;
+}
+
+// Face boxes and their labels drawn over a video or camera preview; fills its parent
+function FaceOverlay({ frame, fit, threshold, mirrored = false }: Props): React.JSX.Element | null {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const onLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  if (!frame) {
+    return null;
+  }
+  const area = size ? fitFrame(size, frame, fit) : null;
+  return (
+    <View pointerEvents="none" style={[StyleSheet.absoluteFill, styles.clip]} onLayout={onLayout}>
+      {frame.faces.length === 0 && (
+        <View style={styles.noFace}>
+          <Text style={styles.noFaceText}>No face</Text>
+        </View>
+      )}
+      {area &&
+        frame.faces.map(({ box: detected, prediction }, index) => {
+          const box = mirrored ? mirrorBox(detected) : detected;
+          const rated = ratePrediction(prediction, threshold);
+          const color = rated.uncertain ? UNCERTAIN_COLOR : emotionColor(prediction.label);
+          return (
+            <View
+              key={index}
+              style={[
+                styles.box,
+                {
+                  borderColor: color,
+                  left: area.x + box.x * area.width,
+                  top: area.y + box.y * area.height,
+                  width: box.width * area.width,
+                  height: box.height * area.height,
+                },
+              ]}>
+              <Text style={[styles.label, { backgroundColor: color }]} numberOfLines={1}>
+                {rated.displayLabel}
+                {rated.confidence !== undefined ? ` ${formatPercent(rated.confidence)}` : ''}
+              </Text>
+            </View>
+          );
+        })}
+    </View>
+  );
+}
+
+export default FaceOverlay;
+
+const styles = StyleSheet.create({
+  clip: { overflow: 'hidden' },
+  box: { position: 'absolute', borderWidth: 2, borderRadius: 4 },
+  label: {
+    alignSelf: 'flex-start',
+    fontSize: 12,
+    color: 'white',
+    fontWeight: 'bold',
+    paddingHorizontal: 4,
+    paddingVertical: 1,
+  },
+  noFace: {
+    position: 'absolute',
+    top: 8,
+    left: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+  },
+  noFaceText: { color: '#FFCC80', fontSize: 12, fontWeight: 'bold' },
+});
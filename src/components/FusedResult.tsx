@@ -0,0 +1,52 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { formatPercent } from '../analysis/confidence';
+import type { FusedEmotion } from '../analysis/fusion';
+
+interface Props {
+  fused: FusedEmotion | null;
+  threshold: number;
+  // White text for the camera overlay
+  light?: boolean;
+}
+
+// "Overall: <label>" with whether face and voice agreed on it
+function FusedResult({ fused, threshold, light = false }: Props): React.JSX.Element | null {
+  if (!fused) {
+    return null;
+  }
+  const uncertain = fused.confidence < threshold;
+  let note: string;
+  switch (fused.agreement) {
+    case 'agree':
+      note = 'face and voice agree';
+      break;
+    case 'disagree':
+      note = `face says ${fused.face?.label}, voice says ${fused.voice?.label}`;
+      break;
+    case 'single':
+      note = `${fused.face ? 'face' : 'voice'} only`;
+      break;
+  }
+  return (
+    <View style={styles.row}>
+      <Text style={[styles.label, light && styles.light, uncertain && styles.uncertain]}>
+        Overall: {uncertain ? 'uncertain' : fused.label} ({formatPercent(fused.confidence)})
+      </Text>
+      <Text style={[styles.badge, styles[fused.agreement]]}>{note}</Text>
+    </View>
+  );
+}
+
+export default FusedResult;
+
+const styles = StyleSheet.create({
+  row: { flexDirection: 'row', alignItems: 'center', flexWrap: 'wrap', marginVertical: 4 },
+  label: { fontSize: 17, fontWeight: 'bold', color: '#333', marginRight: 8 },
+  light: { color: '#fff' },
+  uncertain: { color: '#E65100', fontStyle: 'italic' },
+  badge: { fontSize: 12, color: 'white', borderRadius: 8, paddingHorizontal: 6, paddingVertical: 2, overflow: 'hidden' },
+  agree: { backgroundColor: '#2E7D32' },
+  disagree: { backgroundColor: '#E65100' },
+  single: { backgroundColor: '#78909C' },
+});
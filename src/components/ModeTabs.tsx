@@ -0,0 +1,75 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import type { AnalysisMode } from '../state/ResultsContext';
+
+export const MODE_LABELS: Record<AnalysisMode, string> = {
+  upload: 'Files',
+  video: 'Video',
+  live: 'Live',
+};
+
+const MODES: AnalysisMode[] = ['upload', 'video', 'live'];
+
+interface Props {
+  mode: AnalysisMode;
+  onSelect: (mode: AnalysisMode) => void;
+  // Requests waiting in the offline outbox; tapping the badge tries to send them now
+  pendingCount: number;
+  onPressPending: () => void;
+  onOpenHistory: () => void;
+  onOpenSettings: () => void;
+}
+
+// Segmented mode switcher with history and settings entries on the right
+function ModeTabs({ mode, onSelect, pendingCount, onPressPending, onOpenHistory, onOpenSettings }: Props): React.JSX.Element {
+  return (
+    <View style={styles.bar}>
+      {MODES.map(item => (
+        <TouchableOpacity
+          key={item}
+          style={[styles.tab, item === mode && styles.tabActive]}
+          onPress={() => onSelect(item)}>
+          <Text style={[styles.tabText, item === mode && styles.tabTextActive]}>{MODE_LABELS[item]}</Text>
+        </TouchableOpacity>
+      ))}
+      {pendingCount > 0 && (
+        <TouchableOpacity
+          style={[styles.badge, styles.pushRight]}
+          onPress={onPressPending}
+          accessibilityLabel={`${pendingCount} requests waiting to be sent`}>
+          <Text style={styles.badgeText}>{pendingCount} pending</Text>
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity style={[styles.settings, pendingCount === 0 && styles.pushRight]} onPress={onOpenHistory}>
+        <Text style={styles.settingsText}>History</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.settings} onPress={onOpenSettings}>
+        <Text style={styles.settingsText}>Settings</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+export default ModeTabs;
+
+const styles = StyleSheet.create({
+  bar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 50,
+    paddingHorizontal: 10,
+    paddingBottom: 8,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+  },
+  tab: { paddingHorizontal: 14, paddingVertical: 8, borderRadius: 16, marginRight: 6 },
+  tabActive: { backgroundColor: '#2196F3' },
+  tabText: { fontSize: 15, color: '#2196F3' },
+  tabTextActive: { color: 'white', fontWeight: 'bold' },
+  pushRight: { marginLeft: 'auto' },
+  badge: { backgroundColor: '#E65100', borderRadius: 10, paddingHorizontal: 8, paddingVertical: 3 },
+  badgeText: { color: 'white', fontSize: 12, fontWeight: 'bold' },
+  settings: { paddingHorizontal: 8, paddingVertical: 8 },
+  settingsText: { fontSize: 15, color: '#555' },
+});
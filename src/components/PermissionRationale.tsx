@@ -0,0 +1,96 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import {
+  Capability,
+  CAPABILITY_LABELS,
+  CAPABILITY_RATIONALES,
+  isUsable,
+  openAppSettings,
+  PermissionState,
+} from '../permissions/permissions';
+
+const STATE_LABELS: Record<PermissionState, string> = {
+  granted: 'Allowed',
+  limited: 'Selected items only',
+  denied: 'Not allowed yet',
+  blocked: 'Turned off in settings',
+};
+
+const STATE_COLORS: Record<PermissionState, string> = {
+  granted: '#2E7D32',
+  limited: '#2E7D32',
+  denied: '#E65100',
+  blocked: '#C62828',
+};
+
+interface Props {
+  capabilities: Capability[];
+  states: Partial<Record<Capability, PermissionState>>;
+  onRequest: () => void;
+  onClose?: () => void;
+}
+
+// Explains what each capability is for before the system prompt, or before sending the user to the
+// app settings once the system won't prompt any more
+function PermissionRationale({ capabilities, states, onRequest, onClose }: Props): React.JSX.Element {
+  const blocked = capabilities.some(capability => states[capability] === 'blocked');
+  const openSettings = () => {
+    openAppSettings();
+    onClose?.();
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Allow access</Text>
+      {capabilities.map(capability => {
+        const state = states[capability];
+        return (
+          <View key={capability} style={styles.row}>
+            <View style={styles.rowHeader}>
+              <Text style={styles.label}>{CAPABILITY_LABELS[capability]}</Text>
+              {state && <Text style={[styles.state, { color: STATE_COLORS[state] }]}>{STATE_LABELS[state]}</Text>}
+            </View>
+            <Text style={styles.reason}>{CAPABILITY_RATIONALES[capability]}</Text>
+          </View>
+        );
+      })}
+      {blocked ? (
+        <>
+          <Text style={styles.text}>
+            The system won't ask again. Turn access on in the app settings, then come back.
+          </Text>
+          <TouchableOpacity style={styles.button} onPress={openSettings}>
+            <Text style={styles.buttonText}>Open Settings</Text>
+          </TouchableOpacity>
+        </>
+      ) : (
+        !capabilities.every(capability => isUsable(states[capability])) && (
+          <TouchableOpacity style={styles.button} onPress={onRequest}>
+            <Text style={styles.buttonText}>Grant access</Text>
+          </TouchableOpacity>
+        )
+      )}
+      {onClose && (
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.link}>Not now</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+export default PermissionRationale;
+
+const styles = StyleSheet.create({
+  container: { flex: 1, justifyContent: 'center', alignItems: 'stretch', padding: 30, backgroundColor: '#f5f5f5' },
+  title: { fontSize: 20, fontWeight: 'bold', color: '#333', marginBottom: 10, textAlign: 'center' },
+  row: { backgroundColor: '#fff', borderRadius: 8, padding: 12, marginVertical: 6 },
+  rowHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  label: { fontSize: 16, fontWeight: 'bold', color: '#333' },
+  state: { fontSize: 13, fontWeight: 'bold' },
+  reason: { fontSize: 14, color: '#555', marginTop: 4 },
+  text: { fontSize: 15, color: '#555', textAlign: 'center', marginVertical: 8 },
+  button: { backgroundColor: '#2196F3', padding: 12, borderRadius: 8, marginVertical: 10, alignItems: 'center' },
+  buttonText: { color: 'white', fontSize: 16, fontWeight: 'bold' },
+  link: { fontSize: 16, color: '#2196F3', fontWeight: 'bold', textAlign: 'center', marginTop: 6 },
+});
@@ -0,0 +1,37 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import type { EmotionPrediction } from '../api/emotionClient';
+import { formatPercent, ratePrediction } from '../analysis/confidence';
+import ScoreChart from './ScoreChart';
+
+interface Props {
+  title: string;
+  prediction: EmotionPrediction | null;
+  threshold: number;
+  showChart?: boolean;
+}
+
+// One "<title>: <label>" line plus the ranked score chart for a modality
+function PredictionResult({ title, prediction, threshold, showChart = true }: Props): React.JSX.Element {
+  if (!prediction) {
+    return <Text style={styles.resultText}>{title}: Not processed</Text>;
+  }
+  const rated = ratePrediction(prediction, threshold);
+  return (
+    <View>
+      <Text style={[styles.resultText, rated.uncertain && styles.uncertain]}>
+        {title}: {rated.displayLabel}
+        {rated.confidence !== undefined ? ` (${formatPercent(rated.confidence)})` : ''}
+        {rated.uncertain ? ` — best guess ${prediction.label}` : ''}
+      </Text>
+      {showChart && <ScoreChart scores={prediction.scores} highlight={prediction.label} />}
+    </View>
+  );
+}
+
+export default PredictionResult;
+
+const styles = StyleSheet.create({
+  resultText: { fontSize: 16, marginVertical: 2, color: '#333' },
+  uncertain: { color: '#E65100', fontStyle: 'italic' },
+});
@@ -0,0 +1,54 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import type { ModeResults } from '../state/ResultsContext';
+import { useSettings } from '../settings/SettingsContext';
+import PredictionResult from './PredictionResult';
+
+interface Props {
+  results: ModeResults;
+  showCharts?: boolean;
+  children?: React.ReactNode;
+}
+
+// The "Classification Results:" box shared by every mode
+function ResultsPanel({ results, showCharts = true, children }: Props): React.JSX.Element {
+  const { settings } = useSettings();
+  return (
+    <View style={styles.resultsContainer}>
+      <Text style={styles.resultTitle}>Classification Results:</Text>
+      <PredictionResult
+        title="Image"
+        prediction={results.image}
+        threshold={settings.confidenceThreshold}
+        showChart={showCharts}
+      />
+      <PredictionResult
+        title="Audio"
+        prediction={results.audio}
+        threshold={settings.confidenceThreshold}
+        showChart={showCharts}
+      />
+      {settings.vadEnabled && results.speech !== null && (
+        <Text style={[styles.voice, !results.speech && styles.silent]}>
+          Voice: {results.speech ? 'speech' : 'silence (not sent)'}
+        </Text>
+      )}
+      {children}
+    </View>
+  );
+}
+
+export default ResultsPanel;
+
+const styles = StyleSheet.create({
+  resultsContainer: {
+    width: '90%',
+    marginTop: 20,
+    backgroundColor: '#eee',
+    padding: 15,
+    borderRadius: 8,
+  },
+  resultTitle: { fontSize: 18, fontWeight: 'bold', marginBottom: 8, color: '#333' },
+  voice: { fontSize: 14, color: '#2E7D32', marginBottom: 6 },
+  silent: { color: '#757575', fontStyle: 'italic' },
+});
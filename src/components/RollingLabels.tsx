@@ -0,0 +1,63 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import type { EmotionPrediction } from '../api/emotionClient';
+import { formatPercent, ratePrediction } from '../analysis/confidence';
+
+interface Props {
+  title: string;
+  // Smoothed headline label, shown before the raw history when given
+  current?: EmotionPrediction | null;
+  // Shown instead of the headline while nothing worth classifying is coming in
+  idleLabel?: string | null;
+  predictions: EmotionPrediction[];
+  threshold: number;
+}
+
+// Most recent predictions, newest first and fading with age
+function RollingLabels({ title, current, idleLabel, predictions, threshold }: Props): React.JSX.Element {
+  return (
+    <View style={styles.row}>
+      <Text style={styles.title}>{title}:</Text>
+      {idleLabel ? (
+        <Text style={styles.idle}>{idleLabel}</Text>
+      ) : (
+        current && <Text style={styles.current}>{ratePrediction(current, threshold).displayLabel}</Text>
+      )}
+      {predictions.length === 0 && <Text style={styles.placeholder}>waiting...</Text>}
+      {predictions.map((prediction, index) => {
+        const rated = ratePrediction(prediction, threshold);
+        return (
+          <View
+            key={index}
+            style={[styles.chip, rated.uncertain && styles.chipUncertain, { opacity: 1 - index * 0.15 }]}>
+            <Text style={[styles.chipText, index === 0 && styles.chipTextLatest]}>
+              {rated.displayLabel}
+              {index === 0 && rated.confidence !== undefined ? ` ${formatPercent(rated.confidence)}` : ''}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+export default RollingLabels;
+
+const styles = StyleSheet.create({
+  row: { flexDirection: 'row', alignItems: 'center', flexWrap: 'wrap', marginVertical: 4 },
+  title: { color: '#fff', fontSize: 16, fontWeight: 'bold', marginRight: 6 },
+  current: { color: '#FFEB3B', fontSize: 16, fontWeight: 'bold', marginRight: 8 },
+  idle: { color: '#BDBDBD', fontSize: 16, fontStyle: 'italic', marginRight: 8 },
+  placeholder: { color: '#ccc', fontSize: 14, fontStyle: 'italic' },
+  chip: {
+    backgroundColor: 'rgba(33, 150, 243, 0.8)',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginRight: 4,
+    marginVertical: 2,
+  },
+  chipUncertain: { backgroundColor: 'rgba(230, 81, 0, 0.8)' },
+  chipText: { color: '#fff', fontSize: 13 },
+  chipTextLatest: { fontWeight: 'bold' },
+});
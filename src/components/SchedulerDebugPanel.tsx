@@ -0,0 +1,47 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import type { LaneStats } from '../scheduling/RequestScheduler';
+
+interface Props {
+  stats: Record<string, LaneStats>;
+}
+
+const COLUMNS: Array<keyof LaneStats> = ['queued', 'running', 'completed', 'failed', 'dropped', 'stale'];
+
+// Per-lane queue depth and drop counters, shown when debug info is enabled in settings
+function SchedulerDebugPanel({ stats }: Props): React.JSX.Element {
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.title}>Request queue</Text>
+      <View style={styles.row}>
+        <Text style={[styles.cell, styles.laneCell]} />
+        {COLUMNS.map(column => (
+          <Text key={column} style={[styles.cell, styles.header]}>
+            {column}
+          </Text>
+        ))}
+      </View>
+      {Object.entries(stats).map(([lane, laneStats]) => (
+        <View key={lane} style={styles.row}>
+          <Text style={[styles.cell, styles.laneCell]}>{lane}</Text>
+          {COLUMNS.map(column => (
+            <Text key={column} style={styles.cell}>
+              {laneStats[column]}
+            </Text>
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+export default SchedulerDebugPanel;
+
+const styles = StyleSheet.create({
+  panel: { width: '90%', backgroundColor: '#263238', borderRadius: 8, padding: 10, marginTop: 10 },
+  title: { color: '#fff', fontWeight: 'bold', marginBottom: 4 },
+  row: { flexDirection: 'row' },
+  cell: { flex: 1, color: '#CFD8DC', fontSize: 11, fontFamily: 'monospace', textAlign: 'right' },
+  header: { color: '#90A4AE' },
+  laneCell: { flex: 1.2, textAlign: 'left', color: '#fff' },
+});
@@ -0,0 +1,49 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import type { EmotionScore } from '../api/emotionClient';
+import { formatPercent } from '../analysis/confidence';
+
+interface Props {
+  scores: EmotionScore[];
+  highlight?: string;
+}
+
+// Horizontal bars, ranked highest first
+function ScoreChart({ scores, highlight }: Props): React.JSX.Element | null {
+  if (scores.length === 0) {
+    return null;
+  }
+  return (
+    <View style={styles.chart}>
+      {scores.map(({ label, score }) => (
+        <View key={label} style={styles.row}>
+          <Text style={styles.label} numberOfLines={1}>
+            {label}
+          </Text>
+          <View style={styles.track}>
+            <View
+              style={[
+                styles.bar,
+                { width: `${Math.max(0, Math.min(1, score)) * 100}%` },
+                label === highlight && styles.barHighlight,
+              ]}
+            />
+          </View>
+          <Text style={styles.value}>{formatPercent(score)}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+export default ScoreChart;
+
+const styles = StyleSheet.create({
+  chart: { marginTop: 4, marginBottom: 8 },
+  row: { flexDirection: 'row', alignItems: 'center', marginVertical: 2 },
+  label: { width: 80, fontSize: 13, color: '#333' },
+  track: { flex: 1, height: 10, backgroundColor: '#ddd', borderRadius: 5, overflow: 'hidden' },
+  bar: { height: '100%', backgroundColor: '#90CAF9' },
+  barHighlight: { backgroundColor: '#2196F3' },
+  value: { width: 44, fontSize: 13, color: '#555', textAlign: 'right' },
+});
@@ -0,0 +1,50 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+
+interface Props {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  step: number;
+  min: number;
+  max: number;
+  format?: (value: number) => string;
+}
+
+// Label plus −/+ buttons for a bounded numeric setting
+function Stepper({ label, value, onChange, step, min, max, format = String }: Props): React.JSX.Element {
+  // Round to the step's precision so repeated taps don't accumulate float error
+  const decimals = (String(step).split('.')[1] ?? '').length;
+  const apply = (next: number) => onChange(Number(Math.max(min, Math.min(max, next)).toFixed(decimals)));
+
+  return (
+    <View style={styles.row}>
+      <Text style={styles.label}>
+        {label}: {format(value)}
+      </Text>
+      <TouchableOpacity style={styles.stepButton} onPress={() => apply(value - step)} disabled={value <= min}>
+        <Text style={styles.stepText}>−</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.stepButton} onPress={() => apply(value + step)} disabled={value >= max}>
+        <Text style={styles.stepText}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+export default Stepper;
+
+const styles = StyleSheet.create({
+  row: { flexDirection: 'row', alignItems: 'center', marginVertical: 6 },
+  label: { flex: 1, fontSize: 14, color: '#555' },
+  stepButton: {
+    backgroundColor: '#2196F3',
+    borderRadius: 6,
+    width: 32,
+    height: 32,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 8,
+  },
+  stepText: { color: 'white', fontSize: 18, fontWeight: 'bold' },
+});
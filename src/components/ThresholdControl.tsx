@@ -0,0 +1,26 @@
+import React from 'react';
+import { formatPercent } from '../analysis/confidence';
+import Stepper from './Stepper';
+
+interface Props {
+  value: number;
+  onChange: (value: number) => void;
+  step?: number;
+}
+
+// Stepper for the minimum confidence a label needs before it is shown
+function ThresholdControl({ value, onChange, step = 0.05 }: Props): React.JSX.Element {
+  return (
+    <Stepper
+      label="Confidence threshold"
+      value={value}
+      onChange={onChange}
+      step={step}
+      min={0}
+      max={1}
+      format={formatPercent}
+    />
+  );
+}
+
+export default ThresholdControl;
@@ -0,0 +1,121 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { formatPercent, ratePrediction } from '../analysis/confidence';
+import { MODALITY_LABELS } from '../history/sessions';
+import { countJobs, UploadJob, UploadJobStatus } from '../upload/uploadJobs';
+
+const STATUS_LABELS: Record<UploadJobStatus, string> = {
+  queued: 'Queued',
+  uploading: 'Uploading',
+  done: 'Done',
+  failed: 'Failed',
+  deferred: 'Waiting for network',
+};
+
+const STATUS_COLORS: Record<UploadJobStatus, string> = {
+  queued: '#888',
+  uploading: '#2196F3',
+  done: '#2E7D32',
+  failed: '#C62828',
+  deferred: '#E65100',
+};
+
+interface Props {
+  jobs: UploadJob[];
+  threshold: number;
+  onRetry: (id?: string) => void;
+  onClearFinished: () => void;
+}
+
+// Status of every picked file, then a per-file summary of the finished ones
+function UploadJobList({ jobs, threshold, onRetry, onClearFinished }: Props): React.JSX.Element | null {
+  if (jobs.length === 0) {
+    return null;
+  }
+  const counts = countJobs(jobs);
+  const finished = jobs.flatMap(job => (job.status === 'done' && job.prediction ? [{ job, prediction: job.prediction }] : []));
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>
+          Files: {counts.done}/{jobs.length} done{counts.failed ? `, ${counts.failed} failed` : ''}
+        </Text>
+        {counts.failed > 0 && (
+          <TouchableOpacity onPress={() => onRetry()}>
+            <Text style={styles.link}>Retry failed</Text>
+          </TouchableOpacity>
+        )}
+        {counts.done + counts.deferred > 0 && (
+          <TouchableOpacity onPress={onClearFinished}>
+            <Text style={styles.link}>Clear done</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {jobs.map(job => (
+        <View key={job.id} style={styles.jobRow}>
+          <View style={styles.jobText}>
+            <Text style={styles.jobName} numberOfLines={1}>
+              {job.name}
+            </Text>
+            {job.error ? <Text style={styles.jobError}>{job.error}</Text> : null}
+          </View>
+          <Text style={[styles.status, { color: STATUS_COLORS[job.status] }]}>{STATUS_LABELS[job.status]}</Text>
+          {job.status === 'failed' && (
+            <TouchableOpacity style={styles.retryButton} onPress={() => onRetry(job.id)}>
+              <Text style={styles.retryText}>Retry</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+
+      {finished.length > 0 && (
+        <View style={styles.table}>
+          <View style={styles.tableRow}>
+            <Text style={[styles.cell, styles.fileCell, styles.headerCell]}>File</Text>
+            <Text style={[styles.cell, styles.headerCell]}>Type</Text>
+            <Text style={[styles.cell, styles.headerCell]}>Emotion</Text>
+            <Text style={[styles.cell, styles.headerCell]}>Confidence</Text>
+          </View>
+          {finished.map(({ job, prediction }) => {
+            const rated = ratePrediction(prediction, threshold);
+            return (
+              <View key={job.id} style={styles.tableRow}>
+                <Text style={[styles.cell, styles.fileCell]} numberOfLines={1}>
+                  {job.name}
+                </Text>
+                <Text style={styles.cell}>{MODALITY_LABELS[job.modality]}</Text>
+                <Text style={[styles.cell, rated.uncertain && styles.uncertain]}>{rated.displayLabel}</Text>
+                <Text style={styles.cell}>
+                  {rated.confidence !== undefined ? formatPercent(rated.confidence) : '–'}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+      )}
+    </View>
+  );
+}
+
+export default UploadJobList;
+
+const styles = StyleSheet.create({
+  container: { width: '90%', backgroundColor: '#fff', borderRadius: 8, padding: 10, marginTop: 10 },
+  header: { flexDirection: 'row', alignItems: 'center', marginBottom: 6 },
+  title: { flex: 1, fontSize: 15, fontWeight: 'bold', color: '#333' },
+  link: { color: '#2196F3', fontWeight: 'bold', marginLeft: 12 },
+  jobRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: 4 },
+  jobText: { flex: 1 },
+  jobName: { fontSize: 14, color: '#333' },
+  jobError: { fontSize: 12, color: '#C62828' },
+  status: { fontSize: 13, marginLeft: 8 },
+  retryButton: { backgroundColor: '#2196F3', borderRadius: 6, paddingHorizontal: 10, paddingVertical: 4, marginLeft: 8 },
+  retryText: { color: 'white', fontWeight: 'bold', fontSize: 13 },
+  table: { marginTop: 10, borderTopWidth: 1, borderColor: '#eee', paddingTop: 6 },
+  tableRow: { flexDirection: 'row', paddingVertical: 3 },
+  cell: { flex: 1, fontSize: 13, color: '#333' },
+  fileCell: { flex: 2 },
+  headerCell: { fontWeight: 'bold', color: '#555' },
+  uncertain: { color: '#E65100', fontStyle: 'italic' },
+});
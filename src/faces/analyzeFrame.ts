@@ -0,0 +1,39 @@
+import FaceDetection from '@react-native-ml-kit/face-detection';
+import type { EmotionClient, RequestOptions } from '../api/emotionClient';
+import type { TempSession } from '../storage/tempFiles';
+import { cropImage, probeImageSize } from '../video/ffmpeg';
+import { cropRect, FaceFrame, FaceResult, MIN_FACE_SIZE, normalizeBox, rankFaces } from './faceBoxes';
+
+// Find faces in a still frame on the device, crop each one and classify the crops one at a time.
+// Frames without a face come back with no faces and nothing is sent to the backend.
+// Crops are written to `temp` and removed once classified. They go to /predict_image, the model video
+// and live frames have always used; /predict-face stays with the Files mode.
+export async function analyzeFrame(
+  framePath: string,
+  client: EmotionClient,
+  temp: TempSession,
+  options: RequestOptions = {},
+): Promise<FaceFrame> {
+  const size = await probeImageSize(framePath);
+  if (!size) {
+    throw new Error(`Could not read the size of ${framePath}`);
+  }
+  const detected = await FaceDetection.detect(`file://${framePath}`, {
+    performanceMode: 'fast',
+    minFaceSize: MIN_FACE_SIZE,
+  });
+  const boxes = rankFaces(detected.map(face => normalizeBox(face.frame, size)));
+  if (boxes.length === 0) {
+    return { ...size, faces: [] };
+  }
+
+  const faces: FaceResult[] = [];
+  for (const box of boxes) {
+    const prediction = await temp.withFile('face.jpg', async cropPath => {
+      await cropImage(framePath, cropPath, cropRect(box, size));
+      return client.predictImage({ uri: `file://${cropPath}`, type: 'image/jpeg', name: 'face.jpg' }, options);
+    });
+    faces.push({ box, prediction });
+  }
+  return { ...size, faces };
+}
@@ -0,0 +1,116 @@
+import type { EmotionPrediction } from '../api/emotionClient';
+
+// Face position as fractions (0..1) of the frame, so it can be drawn over a preview of any size
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FaceResult {
+  box: FaceBox;
+  prediction: EmotionPrediction;
+}
+
+// One analysed frame with every face found in it, largest first; no faces means the frame was skipped
+export interface FaceFrame {
+  width: number;
+  height: number;
+  faces: FaceResult[];
+}
+
+// A video frame's faces pinned to the media time it was taken from
+export interface TimedFaceFrame {
+  start: number;
+  duration: number;
+  frame: FaceFrame;
+}
+
+// A region of an image in whole pixels
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Faces narrower than this share of the frame are ignored
+export const MIN_FACE_SIZE = 0.08;
+
+// At most this many faces are classified per frame, biggest first
+export const MAX_FACES_PER_FRAME = 4;
+
+// Extra context kept around each face when cropping, as a share of the face size per side
+export const CROP_MARGIN = 0.2;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Detector pixels -> fractions of the frame, clipped to the frame
+export const normalizeBox = (
+  frame: { left: number; top: number; width: number; height: number },
+  image: { width: number; height: number },
+): FaceBox => {
+  const x = clamp01(frame.left / image.width);
+  const y = clamp01(frame.top / image.height);
+  return {
+    x,
+    y,
+    width: clamp01((frame.left + frame.width) / image.width) - x,
+    height: clamp01((frame.top + frame.height) / image.height) - y,
+  };
+};
+
+// The same box flipped left to right, for previews shown mirrored like the front camera's
+export const mirrorBox = (box: FaceBox): FaceBox => ({ ...box, x: 1 - box.x - box.width });
+
+// Largest first, so the first face is the one a single-label view should follow
+export const rankFaces = (boxes: FaceBox[]): FaceBox[] =>
+  boxes
+    .filter(box => box.width >= MIN_FACE_SIZE)
+    .sort((a, b) => b.width * b.height - a.width * a.height)
+    .slice(0, MAX_FACES_PER_FRAME);
+
+// Pixel region to crop for a face, grown by `margin` on each side and kept inside the image.
+// Even sizes keep JPEG encoders happy with chroma subsampling.
+export const cropRect = (
+  box: FaceBox,
+  image: { width: number; height: number },
+  margin: number = CROP_MARGIN,
+): PixelRect => {
+  const left = clamp01(box.x - box.width * margin);
+  const top = clamp01(box.y - box.height * margin);
+  const right = clamp01(box.x + box.width * (1 + margin));
+  const bottom = clamp01(box.y + box.height * (1 + margin));
+  const x = Math.floor(left * image.width);
+  const y = Math.floor(top * image.height);
+  const even = (value: number) => Math.max(2, value - (value % 2));
+  return {
+    x,
+    y,
+    width: even(Math.min(Math.round((right - left) * image.width), image.width - x)),
+    height: even(Math.min(Math.round((bottom - top) * image.height), image.height - y)),
+  };
+};
+
+// Keep frames ordered by start; a frame at the same start replaces the old one
+export const insertFaceFrame = (frames: TimedFaceFrame[], entry: TimedFaceFrame): TimedFaceFrame[] =>
+  [...frames.filter(item => item.start !== entry.start), entry].sort((a, b) => a.start - b.start);
+
+// The prediction that stands for the whole frame on single-label views: the largest face's
+export const primaryPrediction = (frame: FaceFrame): EmotionPrediction | null => frame.faces[0]?.prediction ?? null;
+
+// Where a `contentWidth` x `contentHeight` frame lands inside a view, for 'contain' (letterboxed)
+// and 'cover' (cropped) scaling
+export const fitFrame = (
+  view: { width: number; height: number },
+  content: { width: number; height: number },
+  mode: 'contain' | 'cover',
+): PixelRect => {
+  const scaleX = view.width / content.width;
+  const scaleY = view.height / content.height;
+  const scale = mode === 'contain' ? Math.min(scaleX, scaleY) : Math.max(scaleX, scaleY);
+  const width = content.width * scale;
+  const height = content.height * scale;
+  return { x: (view.width - width) / 2, y: (view.height - height) / 2, width, height };
+};
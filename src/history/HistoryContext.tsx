@@ -0,0 +1,100 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { readJsonFile, writeJsonFile } from '../storage/jsonFile';
+import { AnalysisSession, appendResult, HISTORY_FILE, normalizeHistory, SessionInfo, SessionResult } from './sessions';
+
+// Live mode can add a couple of results a second; batch them into one write
+const SAVE_DELAY_MS = 1000;
+
+interface HistoryContextValue {
+  sessions: AnalysisSession[];
+  loaded: boolean;
+  recordResult: (info: SessionInfo, result: SessionResult) => void;
+  removeSession: (id: string) => void;
+  clearHistory: () => void;
+}
+
+const HistoryContext = createContext<HistoryContextValue | null>(null);
+
+export function HistoryProvider({ children }: { children: React.ReactNode }): React.JSX.Element {
+  const [sessions, setSessions] = useState<AnalysisSession[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const pending = useRef<AnalysisSession[] | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const fileLoaded = useRef(false);
+
+  const flush = useCallback(() => {
+    timer.current = null;
+    if (pending.current) {
+      writeJsonFile(HISTORY_FILE, pending.current).catch(error => console.error('Failed to save history:', error));
+      pending.current = null;
+    }
+  }, []);
+
+  // Never write before the file has been read, or an early result would overwrite it
+  const scheduleSave = useCallback(
+    (next: AnalysisSession[]) => {
+      pending.current = next;
+      if (fileLoaded.current && !timer.current) {
+        timer.current = setTimeout(flush, SAVE_DELAY_MS);
+      }
+    },
+    [flush],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    readJsonFile<unknown>(HISTORY_FILE).then(stored => {
+      if (!cancelled) {
+        fileLoaded.current = true;
+        // Keep anything recorded while the file was loading
+        setSessions(current => {
+          const next = [...current, ...normalizeHistory(stored)];
+          if (current.length > 0) {
+            scheduleSave(next);
+          }
+          return next;
+        });
+        setLoaded(true);
+      }
+    });
+    return () => {
+      cancelled = true;
+      if (timer.current) {
+        clearTimeout(timer.current);
+        flush();
+      }
+    };
+  }, [flush, scheduleSave]);
+
+  const commit = useCallback(
+    (update: (current: AnalysisSession[]) => AnalysisSession[]) => {
+      setSessions(current => {
+        const next = update(current);
+        scheduleSave(next);
+        return next;
+      });
+    },
+    [scheduleSave],
+  );
+
+  const value = useMemo<HistoryContextValue>(
+    () => ({
+      sessions,
+      loaded,
+      recordResult: (info, result) => commit(current => appendResult(current, info, result)),
+      removeSession: id => commit(current => current.filter(session => session.id !== id)),
+      clearHistory: () => commit(() => []),
+    }),
+    [sessions, loaded, commit],
+  );
+
+  return <HistoryContext.Provider value={value}>{children}</HistoryContext.Provider>;
+}
+
+export function useHistory(): HistoryContextValue {
+  const context = useContext(HistoryContext);
+  if (!context) {
+    throw new Error('useHistory must be used inside a HistoryProvider');
+  }
+  return context;
+}
@@ -0,0 +1,130 @@
+import { SmoothingOptions, smoothSequence } from '../analysis/smoothing';
+import type { EmotionPrediction } from '../api/emotionClient';
+import type { Modality } from '../state/ResultsContext';
+import type { AnalysisSession, SessionResult } from './sessions';
+
+export interface ExportFile {
+  name: string;
+  mimeType: string;
+  contents: string;
+}
+
+const csvCell = (value: string | number | undefined): string => {
+  if (value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Every class label seen in the session, so each row has the same score columns
+const scoreLabels = (results: SessionResult[]) =>
+  Array.from(new Set(results.flatMap(result => result.prediction.scores.map(entry => entry.label)))).sort();
+
+const fileStem = (session: AnalysisSession) =>
+  `${session.sourceName.replace(/\.[^.]+$/, '').replace(/[^\w-]+/g, '_')}_${session.startedAt}`;
+
+// Smoothed value of every result, computed per modality in media (or recording) order
+export const smoothResults = (
+  session: AnalysisSession,
+  options: SmoothingOptions,
+): Map<SessionResult, EmotionPrediction> => {
+  const ordered = [...session.results].sort((a, b) => (a.start ?? a.recordedAt) - (b.start ?? b.recordedAt));
+  const smoothed = smoothSequence(ordered, options);
+  return new Map(ordered.map((result, index) => [result, smoothed[index]]));
+};
+
+// One row per result with a score column per class, plus the smoothed label next to the raw one
+export const sessionToCsv = (session: AnalysisSession, smoothing: SmoothingOptions): ExportFile => {
+  const labels = scoreLabels(session.results);
+  const smoothed = smoothResults(session, smoothing);
+  const header = [
+    'modality',
+    'recorded_at',
+    'start_s',
+    'duration_s',
+    'label',
+    'confidence',
+    'smoothed_label',
+    'smoothed_confidence',
+    ...labels.map(l => `score_${l}`),
+  ];
+  const rows = session.results.map(result => {
+    const scores = new Map(result.prediction.scores.map(entry => [entry.label, entry.score]));
+    return [
+      result.modality,
+      new Date(result.recordedAt).toISOString(),
+      result.start,
+      result.duration,
+      result.prediction.label,
+      result.prediction.confidence,
+      smoothed.get(result)?.label,
+      smoothed.get(result)?.confidence,
+      ...labels.map(label => scores.get(label)),
+    ]
+      .map(csvCell)
+      .join(',');
+  });
+  return {
+    name: `${fileStem(session)}.csv`,
+    mimeType: 'text/csv',
+    contents: [header.map(csvCell).join(','), ...rows].join('\r\n') + '\r\n',
+  };
+};
+
+// The stored session as-is, with ISO timestamps and each result's smoothed value alongside
+export const sessionToJson = (session: AnalysisSession, smoothing: SmoothingOptions): ExportFile => {
+  const smoothed = smoothResults(session, smoothing);
+  return {
+    name: `${fileStem(session)}.json`,
+    mimeType: 'application/json',
+    contents: JSON.stringify(
+      {
+        ...session,
+        startedAtIso: new Date(session.startedAt).toISOString(),
+        smoothing,
+        results: session.results.map(result => ({
+          ...result,
+          recordedAtIso: new Date(result.recordedAt).toISOString(),
+          smoothed: smoothed.get(result),
+        })),
+      },
+      null,
+      2,
+    ),
+  };
+};
+
+const vttTime = (seconds: number) => {
+  const ms = Math.round(seconds * 1000);
+  const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(
+    ms % 1000,
+    3,
+  )}`;
+};
+
+// Only results pinned to the media timeline can become cues
+export const timedResults = (session: AnalysisSession, modality: Modality) =>
+  session.results
+    .filter(result => result.modality === modality && result.start !== undefined && result.duration !== undefined)
+    .sort((a, b) => (a.start as number) - (b.start as number));
+
+// A subtitle track showing the (smoothed) emotion over playback; overlapping cues are cut at the next start
+export const sessionToWebVtt = (session: AnalysisSession, modality: Modality, smoothing: SmoothingOptions): ExportFile => {
+  const smoothed = smoothResults(session, smoothing);
+  const results = timedResults(session, modality);
+  const cues = results.map((result, index) => {
+    const prediction = smoothed.get(result) ?? result.prediction;
+    const start = result.start as number;
+    const next = results[index + 1]?.start;
+    const end = Math.min(start + (result.duration as number), next ?? Infinity);
+    const confidence = prediction.confidence !== undefined ? ` (${Math.round(prediction.confidence * 100)}%)` : '';
+    return `${index + 1}\n${vttTime(start)} --> ${vttTime(end)}\n${prediction.label}${confidence}`;
+  });
+  return {
+    name: `${fileStem(session)}_${modality}.vtt`,
+    mimeType: 'text/vtt',
+    contents: ['WEBVTT', ...cues].join('\n\n') + '\n',
+  };
+};
@@ -0,0 +1,83 @@
+import type { EmotionPrediction } from '../api/emotionClient';
+import type { AnalysisMode, Modality } from '../state/ResultsContext';
+
+export const HISTORY_FILE = 'history.json';
+
+// Oldest sessions are dropped beyond this so the history file stays small
+export const MAX_SESSIONS = 200;
+
+export const MODALITY_LABELS: Record<Modality, string> = { image: 'Image', audio: 'Audio' };
+
+export interface SessionResult {
+  modality: Modality;
+  recordedAt: number;
+  // Media position in seconds, for results pinned to a video's time axis
+  start?: number;
+  duration?: number;
+  prediction: EmotionPrediction;
+}
+
+// One analysed file, video or live run with everything it produced
+export interface AnalysisSession {
+  id: string;
+  mode: AnalysisMode;
+  sourceName: string;
+  startedAt: number;
+  updatedAt: number;
+  results: SessionResult[];
+}
+
+export type SessionInfo = Pick<AnalysisSession, 'id' | 'mode' | 'sourceName' | 'startedAt'>;
+
+export interface SessionFilter {
+  modality: Modality | 'all';
+  // Only sessions started at or after this time; null for any time
+  since: number | null;
+}
+
+export const ALL_SESSIONS: SessionFilter = { modality: 'all', since: null };
+
+export const sessionModalities = (session: AnalysisSession): Modality[] =>
+  (['image', 'audio'] as Modality[]).filter(modality => session.results.some(result => result.modality === modality));
+
+// Keeps the stored order, which is newest first
+export const filterSessions = (sessions: AnalysisSession[], filter: SessionFilter): AnalysisSession[] =>
+  sessions.filter(
+    session =>
+      (filter.since === null || session.startedAt >= filter.since) &&
+      (filter.modality === 'all' || session.results.some(result => result.modality === filter.modality)),
+  );
+
+// Add a result to its session, creating the session on its first result
+export const appendResult = (
+  sessions: AnalysisSession[],
+  info: SessionInfo,
+  result: SessionResult,
+): AnalysisSession[] => {
+  const existing = sessions.find(session => session.id === info.id);
+  if (existing) {
+    return sessions.map(session =>
+      session === existing
+        ? { ...session, updatedAt: result.recordedAt, results: [...session.results, result] }
+        : session,
+    );
+  }
+  const created: AnalysisSession = { ...info, updatedAt: result.recordedAt, results: [result] };
+  return [created, ...sessions].slice(0, MAX_SESSIONS);
+};
+
+const isSession = (value: unknown): value is AnalysisSession => {
+  const session = value as AnalysisSession;
+  return (
+    typeof session === 'object' &&
+    session !== null &&
+    typeof session.id === 'string' &&
+    typeof session.sourceName === 'string' &&
+    typeof session.startedAt === 'number' &&
+    Array.isArray(session.results)
+  );
+};
+
+// Whatever was on disk, minus anything that doesn't look like a session
+export const normalizeHistory = (stored: unknown): AnalysisSession[] =>
+  Array.isArray(stored) ? stored.filter(isSession).slice(0, MAX_SESSIONS) : [];
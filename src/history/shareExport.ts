@@ -0,0 +1,41 @@
+import { Platform, Share } from 'react-native';
+import { errorCodes, isErrorWithCode, saveDocuments } from '@react-native-documents/picker';
+import { Dirs, FileSystem } from 'react-native-file-access';
+import type { ExportFile } from './export';
+
+const EXPORT_DIR = `${Dirs.CacheDir}/exports`;
+
+async function writeExportFile(file: ExportFile): Promise<string> {
+  if (!(await FileSystem.exists(EXPORT_DIR))) {
+    await FileSystem.mkdir(EXPORT_DIR);
+  }
+  const path = `${EXPORT_DIR}/${file.name}`;
+  await FileSystem.writeFile(path, file.contents, 'utf8');
+  return path;
+}
+
+// iOS shares the file itself; Android's share sheet only takes text, so the contents go as the message
+export async function shareExport(file: ExportFile): Promise<void> {
+  if (Platform.OS === 'ios') {
+    const path = await writeExportFile(file);
+    await Share.share({ url: `file://${path}`, title: file.name });
+  } else {
+    await Share.share({ title: file.name, message: file.contents });
+  }
+}
+
+// Let the user pick where the file goes; returns false if they backed out
+export async function saveExport(file: ExportFile): Promise<boolean> {
+  const path = await writeExportFile(file);
+  try {
+    await saveDocuments({ sourceUris: [`file://${path}`], fileName: file.name, mimeType: file.mimeType, copy: true });
+    return true;
+  } catch (error) {
+    if (isErrorWithCode(error) && error.code === errorCodes.OPERATION_CANCELED) {
+      return false;
+    }
+    throw error;
+  } finally {
+    await FileSystem.unlink(path).catch(() => undefined);
+  }
+}
@@ -0,0 +1,119 @@
+import { FusionOptions, fuseTimeline } from '../analysis/fusion';
+import type { TimedPrediction } from '../analysis/timeline';
+import type { Modality } from '../state/ResultsContext';
+import { timedResults } from './export';
+import type { AnalysisSession, SessionResult } from './sessions';
+
+export interface EmotionShare {
+  label: string;
+  count: number;
+  // Media time labelled with this emotion; 0 for results without a position
+  seconds: number;
+  // Share of the media time when the modality has any, otherwise share of the results
+  share: number;
+}
+
+export interface ModalitySummary {
+  modality: Modality;
+  count: number;
+  seconds: number;
+  dominant: string | null;
+  // Biggest share first
+  emotions: EmotionShare[];
+}
+
+// Face and voice lined up on the media time axis; only video-style results have one
+export interface AgreementSummary {
+  compared: number;
+  agreed: number;
+  comparedSeconds: number;
+  agreedSeconds: number;
+}
+
+export interface EmotionSummary {
+  sessions: number;
+  results: number;
+  modalities: ModalitySummary[];
+  agreement: AgreementSummary;
+}
+
+// How long each timed result stays on screen: its own duration, cut short where the next one starts
+const coveredSeconds = (session: AnalysisSession, modality: Modality): Map<SessionResult, number> => {
+  const results = timedResults(session, modality);
+  return new Map(
+    results.map((result, index) => {
+      const start = result.start as number;
+      const end = Math.min(start + (result.duration as number), results[index + 1]?.start ?? Infinity);
+      return [result, Math.max(0, end - start)];
+    }),
+  );
+};
+
+const summarizeModality = (sessions: AnalysisSession[], modality: Modality): ModalitySummary | null => {
+  const byLabel = new Map<string, { count: number; seconds: number }>();
+  let count = 0;
+  let seconds = 0;
+  for (const session of sessions) {
+    const covered = coveredSeconds(session, modality);
+    for (const result of session.results) {
+      if (result.modality !== modality) {
+        continue;
+      }
+      const entry = byLabel.get(result.prediction.label) ?? { count: 0, seconds: 0 };
+      const time = covered.get(result) ?? 0;
+      byLabel.set(result.prediction.label, { count: entry.count + 1, seconds: entry.seconds + time });
+      count += 1;
+      seconds += time;
+    }
+  }
+  if (count === 0) {
+    return null;
+  }
+  const emotions = Array.from(byLabel, ([label, entry]) => ({
+    label,
+    ...entry,
+    share: seconds > 0 ? entry.seconds / seconds : entry.count / count,
+  })).sort((a, b) => b.share - a.share || b.count - a.count);
+  return { modality, count, seconds, dominant: emotions[0].label, emotions };
+};
+
+const sessionTimeline = (session: AnalysisSession): TimedPrediction[] =>
+  (['image', 'audio'] as Modality[]).flatMap(modality =>
+    timedResults(session, modality).map(result => ({
+      modality,
+      start: result.start as number,
+      duration: result.duration as number,
+      prediction: result.prediction,
+    })),
+  );
+
+const summarizeAgreement = (sessions: AnalysisSession[], fusion: FusionOptions): AgreementSummary => {
+  const agreement: AgreementSummary = { compared: 0, agreed: 0, comparedSeconds: 0, agreedSeconds: 0 };
+  for (const session of sessions) {
+    for (const segment of fuseTimeline(sessionTimeline(session), fusion)) {
+      if (segment.fused.agreement === 'single') {
+        continue;
+      }
+      agreement.compared += 1;
+      agreement.comparedSeconds += segment.duration;
+      if (segment.fused.agreement === 'agree') {
+        agreement.agreed += 1;
+        agreement.agreedSeconds += segment.duration;
+      }
+    }
+  }
+  return agreement;
+};
+
+// Distribution, dominant emotion and time per emotion for each modality, plus face/voice agreement,
+// across one or more sessions (a video, an upload batch, or a history selection)
+export function summarizeSessions(sessions: AnalysisSession[], fusion: FusionOptions): EmotionSummary {
+  return {
+    sessions: sessions.length,
+    results: sessions.reduce((total, session) => total + session.results.length, 0),
+    modalities: (['image', 'audio'] as Modality[])
+      .map(modality => summarizeModality(sessions, modality))
+      .filter((summary): summary is ModalitySummary => summary !== null),
+    agreement: summarizeAgreement(sessions, fusion),
+  };
+}
@@ -0,0 +1,116 @@
+import { useEffect } from 'react';
+import AudioRecord from 'react-native-audio-record';
+import { FileSystem } from 'react-native-file-access';
+import type { EmotionClient, EmotionPrediction } from '../api/emotionClient';
+import { base64ToBytes } from '../audio/base64';
+import { detectSpeech, VadOptions, VadResult } from '../audio/vad';
+import { encodeWav, pcmBytesToSamples, PCM_SAMPLE_RATE } from '../audio/wav';
+import { AudioWindow, AudioWindower } from '../audio/windower';
+import { useLatest } from './useLatest';
+
+interface Options {
+  enabled: boolean;
+  windowMs: number;
+  hopMs: number;
+  client: EmotionClient;
+  // Windows without a voice are reported to `onVoice` and not sent; null sends every window
+  vad: VadOptions | null;
+  onPrediction: (prediction: EmotionPrediction, window: AudioWindow) => void;
+  onVoice?: (result: VadResult, window: AudioWindow) => void;
+  onError: (error: unknown) => void;
+}
+
+// Windows waiting for upload beyond this are dropped oldest-first so latency stays bounded
+const MAX_PENDING_WINDOWS = 4;
+
+const msToSamples = (ms: number) => Math.round((ms / 1000) * PCM_SAMPLE_RATE);
+
+// Streams the microphone continuously and classifies overlapping windows of it. Capture
+// never stops between windows; each window is encoded to WAV in memory and uploaded in order.
+export function useAudioStreamAnalysis({
+  enabled,
+  windowMs,
+  hopMs,
+  client,
+  vad,
+  onPrediction,
+  onVoice,
+  onError,
+}: Options) {
+  // VAD thresholds are read per window, so tuning them doesn't restart the recorder
+  const callbacks = useLatest({ vad, onPrediction, onVoice, onError });
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    let cancelled = false;
+    let uploading = false;
+    const pending: AudioWindow[] = [];
+    const windower = new AudioWindower(msToSamples(windowMs), msToSamples(Math.min(hopMs, windowMs)));
+
+    const drain = async () => {
+      if (uploading) {
+        return;
+      }
+      uploading = true;
+      while (!cancelled && pending.length > 0) {
+        const window = pending.shift() as AudioWindow;
+        const { vad: options } = callbacks.current;
+        if (options) {
+          const voice = detectSpeech(window.samples, options);
+          callbacks.current.onVoice?.(voice, window);
+          if (!voice.speech) {
+            continue;
+          }
+        }
+        try {
+          // Handed over in memory; only the HTTP transport writes it to a file
+          const prediction = await client.predictAudioChunk({
+            bytes: encodeWav(window.samples),
+            type: 'audio/wav',
+            name: 'audio_chunk.wav',
+          });
+          if (!cancelled) {
+            callbacks.current.onPrediction(prediction, window);
+          }
+        } catch (error) {
+          if (!cancelled) {
+            callbacks.current.onError(error);
+          }
+        }
+      }
+      uploading = false;
+    };
+
+    AudioRecord.init({
+      sampleRate: PCM_SAMPLE_RATE,
+      channels: 1,
+      bitsPerSample: 16,
+      audioSource: 6, // VOICE_RECOGNITION on Android
+      wavFile: 'live_stream.wav',
+    });
+    AudioRecord.on('data', (chunk: string) => {
+      if (cancelled) {
+        return;
+      }
+      const windows = windower.push(pcmBytesToSamples(base64ToBytes(chunk)));
+      if (windows.length === 0) {
+        return;
+      }
+      pending.push(...windows);
+      pending.splice(0, Math.max(0, pending.length - MAX_PENDING_WINDOWS));
+      drain();
+    });
+    AudioRecord.start();
+
+    return () => {
+      cancelled = true;
+      pending.length = 0;
+      // The recorder also writes the whole take to its own WAV file, which nothing reads
+      AudioRecord.stop()
+        .then(path => FileSystem.unlink(path))
+        .catch(() => {});
+    };
+  }, [enabled, windowMs, hopMs, client, callbacks]);
+}
@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { VadOptions } from '../audio/vad';
+import type { TempSession } from '../storage/tempFiles';
+import { BatchProgress, planSegments, runBatch } from '../video/batchAnalysis';
+import { probeMedia } from '../video/ffmpeg';
+import type { SegmentClients, SegmentResult, VideoSegment } from '../video/segments';
+import { useLatest } from './useLatest';
+
+export type BatchPhase = 'idle' | 'probing' | 'running' | 'cancelled' | 'done' | 'failed';
+
+export interface BatchState {
+  phase: BatchPhase;
+  progress: BatchProgress | null;
+  error: unknown;
+}
+
+const IDLE: BatchState = { phase: 'idle', progress: null, error: null };
+
+interface Options {
+  videoUri: string | null;
+  clients: SegmentClients;
+  vad?: VadOptions | null;
+  temp?: TempSession;
+  onResult: (segment: VideoSegment, result: SegmentResult) => void;
+  onFailure?: (segment: VideoSegment, error: unknown) => void;
+}
+
+// Plan and completed segments for the picked video, kept across cancel and resume
+interface BatchJob {
+  segments: VideoSegment[];
+  completedKeys: Set<string>;
+}
+
+// Whole-file analysis for the picked video, with cancel and resume. Progress for a
+// video is kept until a different video is picked.
+export function useBatchAnalysis({ videoUri, clients, vad = null, temp, onResult, onFailure }: Options) {
+  const [state, setState] = useState<BatchState>(IDLE);
+  const callbacks = useLatest({ clients, vad, temp, onResult, onFailure });
+  const job = useRef<BatchJob | null>(null);
+  // One per run, probe included; aborted by cancel, a new video or unmounting
+  const running = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    running.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    cancel();
+    running.current = null;
+    job.current = null;
+    setState(IDLE);
+  }, [videoUri, cancel]);
+
+  const run = useCallback(async () => {
+    if (!videoUri) {
+      return;
+    }
+    running.current?.abort();
+    const controller = new AbortController();
+    running.current = controller;
+    // A run that was cancelled or replaced must not touch the timeline, history or state any more
+    const live = () => running.current === controller && !controller.signal.aborted;
+    const update = (next: (previous: BatchState) => BatchState) => {
+      if (running.current === controller) {
+        setState(next);
+      }
+    };
+
+    try {
+      let current = job.current;
+      if (!current) {
+        update(() => ({ phase: 'probing', progress: null, error: null }));
+        const info = await probeMedia(videoUri, controller.signal);
+        if (!live()) {
+          update(previous => ({ ...previous, phase: 'cancelled' }));
+          return;
+        }
+        current = { segments: planSegments(info.durationSeconds, info), completedKeys: new Set() };
+        job.current = current;
+      }
+      update(previous => ({ ...previous, phase: 'running', error: null }));
+
+      const outcome = await runBatch({
+        videoUri,
+        segments: current.segments,
+        completedKeys: current.completedKeys,
+        clients: callbacks.current.clients,
+        vad: callbacks.current.vad,
+        temp: callbacks.current.temp,
+        isCancelled: () => !live(),
+        onResult: (segment, result) => {
+          if (live()) {
+            callbacks.current.onResult(segment, result);
+          }
+        },
+        onFailure: (segment, error) => {
+          if (live()) {
+            callbacks.current.onFailure?.(segment, error);
+          }
+        },
+        onProgress: progress => {
+          if (live()) {
+            setState(previous => ({ ...previous, progress }));
+          }
+        },
+      });
+      update(previous => ({ ...previous, phase: outcome }));
+    } catch (error) {
+      if (controller.signal.aborted) {
+        update(previous => ({ ...previous, phase: 'cancelled' }));
+        return;
+      }
+      console.error('Batch analysis failed:', error);
+      update(previous => ({ ...previous, phase: 'failed', error }));
+    }
+  }, [videoUri, callbacks]);
+
+  // Unmounting stops the walk after the segment in flight and stops a probe right away
+  useEffect(() => cancel, [cancel]);
+
+  return { ...state, run, cancel };
+}
@@ -0,0 +1,8 @@
+import { useRef } from 'react';
+
+// Ref that always holds the latest value, for callbacks read from long-lived timers
+export function useLatest<T>(value: T) {
+  const ref = useRef(value);
+  ref.current = value;
+  return ref;
+}
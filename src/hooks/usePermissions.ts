@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Alert, AppState } from 'react-native';
+import {
+  Capability,
+  CAPABILITY_LABELS,
+  checkPermission,
+  isUsable,
+  PermissionState,
+  requestPermission,
+} from '../permissions/permissions';
+
+type PermissionStates = Partial<Record<Capability, PermissionState>>;
+
+// States for a screen that needs some capabilities the whole time it's open. They are re-checked
+// whenever the app comes back to the foreground, since the user may have changed them in the settings.
+export function usePermissions(capabilities: Capability[]) {
+  const key = capabilities.join(',');
+  const list = useMemo(() => key.split(',') as Capability[], [key]);
+  const [states, setStates] = useState<PermissionStates>({});
+
+  const refresh = useCallback(async () => {
+    const checked = await Promise.all(list.map(checkPermission));
+    // A check can't tell blocked from denied, so a known block stands until access is granted
+    setStates(current =>
+      Object.fromEntries(
+        list.map((capability, index) => [
+          capability,
+          checked[index] === 'denied' && current[capability] === 'blocked' ? 'blocked' : checked[index],
+        ]),
+      ),
+    );
+  }, [list]);
+
+  // One prompt at a time; the system dialogs don't stack
+  const request = useCallback(async () => {
+    const next: PermissionStates = {};
+    for (const capability of list) {
+      next[capability] = isUsable(states[capability]) ? states[capability] : await requestPermission(capability);
+    }
+    setStates(next);
+  }, [list, states]);
+
+  useEffect(() => {
+    refresh();
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        refresh();
+      }
+    });
+    return () => subscription.remove();
+  }, [refresh]);
+
+  return {
+    states,
+    checked: list.every(capability => states[capability] !== undefined),
+    granted: list.every(capability => isUsable(states[capability])),
+    request,
+  };
+}
+
+// Asks for a capability right before it's used, e.g. ahead of a picker. A refusal shows an alert; when
+// the system won't ask again `blocked` is set so the screen can show the rationale and its way to the settings.
+export function usePermissionGate() {
+  const [blocked, setBlocked] = useState<Capability | null>(null);
+
+  const ensure = useCallback(async (capability: Capability, purpose: string) => {
+    const state = await requestPermission(capability);
+    if (state === 'blocked') {
+      setBlocked(capability);
+      return false;
+    }
+    if (!isUsable(state)) {
+      Alert.alert('Permission Denied', `Access to ${CAPABILITY_LABELS[capability].toLowerCase()} is required to ${purpose}.`);
+      return false;
+    }
+    return true;
+  }, []);
+
+  const dismiss = useCallback(() => setBlocked(null), []);
+
+  return { ensure, blocked, dismiss };
+}
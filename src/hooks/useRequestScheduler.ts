@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { LaneOptions, LaneStats, RequestScheduler } from '../scheduling/RequestScheduler';
+
+// One scheduler for the component's lifetime, plus its live stats for rendering
+export function useRequestScheduler<K extends string>(lanes: Record<K, LaneOptions>) {
+  const [scheduler] = useState(() => new RequestScheduler(lanes));
+  const [stats, setStats] = useState<Record<K, LaneStats>>(() => scheduler.stats());
+
+  useEffect(() => {
+    const unsubscribe = scheduler.subscribe(() => setStats(scheduler.stats()));
+    return () => {
+      unsubscribe();
+      scheduler.dispose();
+    };
+  }, [scheduler]);
+
+  return { scheduler, stats, busy: Object.values<LaneStats>(stats).some(lane => lane.queued + lane.running > 0) };
+}
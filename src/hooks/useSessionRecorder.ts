@@ -0,0 +1,35 @@
+import { useCallback, useRef } from 'react';
+import type { EmotionPrediction } from '../api/emotionClient';
+import { useHistory } from '../history/HistoryContext';
+import type { SessionInfo } from '../history/sessions';
+import type { AnalysisMode, Modality } from '../state/ResultsContext';
+
+// Groups a mode's results into history sessions. `begin` starts a new session; it only
+// shows up in history once its first result is recorded.
+export function useSessionRecorder(mode: AnalysisMode) {
+  const { recordResult } = useHistory();
+  const session = useRef<SessionInfo | null>(null);
+
+  const begin = useCallback(
+    (sourceName: string) => {
+      const startedAt = Date.now();
+      session.current = { id: `${mode}-${startedAt}`, mode, sourceName, startedAt };
+    },
+    [mode],
+  );
+
+  const record = useCallback(
+    (modality: Modality, prediction: EmotionPrediction, timing?: { start: number; duration: number }) => {
+      if (!session.current) {
+        return;
+      }
+      recordResult(session.current, { modality, recordedAt: Date.now(), prediction, ...timing });
+    },
+    [recordResult],
+  );
+
+  // The session results are currently going to, for work that finishes later
+  const current = useCallback(() => session.current, []);
+
+  return { begin, record, current };
+}
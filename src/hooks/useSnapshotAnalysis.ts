@@ -0,0 +1,70 @@
+import { RefObject, useEffect } from 'react';
+import type { Camera } from 'react-native-vision-camera';
+import { FileSystem } from 'react-native-file-access';
+import type { EmotionClient } from '../api/emotionClient';
+import { analyzeFrame } from '../faces/analyzeFrame';
+import type { FaceFrame } from '../faces/faceBoxes';
+import { tempFiles } from '../storage/tempFiles';
+import { useLatest } from './useLatest';
+
+interface Options {
+  enabled: boolean;
+  intervalMs: number;
+  client: EmotionClient;
+  onFrame: (frame: FaceFrame) => void;
+  onError: (error: unknown) => void;
+}
+
+// Snapshots the preview on a fixed cadence and classifies each face in it. The next snapshot is
+// only scheduled once the previous upload settles, so a slow backend lowers the rate instead
+// of stacking requests.
+export function useSnapshotAnalysis(
+  cameraRef: RefObject<Camera | null>,
+  { enabled, intervalMs, client, onFrame, onError }: Options,
+) {
+  const callbacks = useLatest({ onFrame, onError });
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // Face crops; the snapshots themselves are written by the camera library
+    const temp = tempFiles.create('live-frames');
+
+    const tick = async () => {
+      const started = Date.now();
+      const camera = cameraRef.current;
+      if (camera) {
+        let snapshotPath: string | null = null;
+        try {
+          const snapshot = await camera.takeSnapshot({ quality: 80 });
+          snapshotPath = snapshot.path;
+          const frame = await analyzeFrame(snapshot.path, client, temp);
+          if (!cancelled) {
+            callbacks.current.onFrame(frame);
+          }
+        } catch (error) {
+          if (!cancelled) {
+            callbacks.current.onError(error);
+          }
+        } finally {
+          if (snapshotPath) {
+            FileSystem.unlink(snapshotPath).catch(() => {});
+          }
+        }
+      }
+      if (!cancelled) {
+        timer = setTimeout(tick, Math.max(0, intervalMs - (Date.now() - started)));
+      }
+    };
+
+    timer = setTimeout(tick, intervalMs);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      temp.dispose();
+    };
+  }, [enabled, intervalMs, client, cameraRef, callbacks]);
+}
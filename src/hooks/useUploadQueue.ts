@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useReducer, useRef } from 'react';
+import type { EmotionPrediction } from '../api/emotionClient';
+import { describeApiError } from '../api/errors';
+import { nextQueued, UploadJob, uploadJobsReducer } from '../upload/uploadJobs';
+import { useLatest } from './useLatest';
+
+interface Options {
+  // Resolves to null when the job was handed to the offline outbox instead
+  upload: (job: UploadJob, signal: AbortSignal) => Promise<EmotionPrediction | null>;
+  onDone?: (job: UploadJob, prediction: EmotionPrediction) => void;
+  onFailed?: (job: UploadJob, error: unknown) => void;
+}
+
+// Works through picked files one at a time; new picks join the end of the queue
+export function useUploadQueue({ upload, onDone, onFailed }: Options) {
+  const [jobs, dispatch] = useReducer(uploadJobsReducer, []);
+  const callbacks = useLatest({ upload, onDone, onFailed });
+  const started = useRef<UploadJob | null>(null);
+  const controller = useRef<AbortController | null>(null);
+  const next = nextQueued(jobs);
+
+  useEffect(() => {
+    // A retried job is a new object, so this only skips a repeated effect for the same attempt
+    if (!next || started.current === next) {
+      return;
+    }
+    started.current = next;
+    const abort = new AbortController();
+    controller.current = abort;
+    dispatch({ type: 'start', id: next.id });
+    callbacks.current.upload(next, abort.signal).then(
+      prediction => {
+        if (!prediction) {
+          dispatch({ type: 'deferred', id: next.id });
+          return;
+        }
+        dispatch({ type: 'done', id: next.id, prediction });
+        callbacks.current.onDone?.(next, prediction);
+      },
+      error => {
+        dispatch({ type: 'failed', id: next.id, error: describeApiError(error) });
+        callbacks.current.onFailed?.(next, error);
+      },
+    );
+  }, [next, callbacks]);
+
+  // The job in flight fails as "Cancelled" and can be retried; the rest of the queue carries on
+  const cancelCurrent = useCallback(() => controller.current?.abort(), []);
+
+  useEffect(() => cancelCurrent, [cancelCurrent]);
+
+  return { jobs, dispatch, cancelCurrent };
+}
@@ -0,0 +1,244 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import { Dirs, FileSystem } from 'react-native-file-access';
+import type { UploadFile } from '../api/emotionClient';
+import { checkEndpoint } from '../api/health';
+import { isOfflineError } from '../api/retry';
+import { useHistory } from '../history/HistoryContext';
+import { useLatest } from '../hooks/useLatest';
+import type { SessionInfo } from '../history/sessions';
+import { useEmotionClients, useSettings } from '../settings/SettingsContext';
+import type { Modality } from '../state/ResultsContext';
+import { readJsonFile, writeJsonFile } from '../storage/jsonFile';
+import { analyzeExtractedSegment, extractSegment, segmentExtension, VideoSegment } from '../video/segments';
+import {
+  MAX_OUTBOX_ATTEMPTS,
+  normalizeOutbox,
+  OUTBOX_DIR,
+  OUTBOX_FILE,
+  OutboxEntry,
+  OutboxRequest,
+  requestBaseUrl,
+  requestModality,
+  waitingBackends,
+  WaitingBackend,
+} from './outbox';
+
+// How often to look for the backend again while requests are waiting
+const RECONNECT_POLL_MS = 15000;
+
+const outboxDir = `${Dirs.DocumentDir}/${OUTBOX_DIR}`;
+
+interface OutboxContextValue {
+  pending: number;
+  online: boolean;
+  enqueueFile: (session: SessionInfo, modality: Modality, file: UploadFile) => Promise<void>;
+  enqueueSegment: (session: SessionInfo, videoUri: string, segment: VideoSegment) => Promise<void>;
+  flush: () => void;
+}
+
+const OutboxContext = createContext<OutboxContextValue | null>(null);
+
+const localPath = (uri: string) => uri.replace(/^file:\/\//, '');
+
+const removeCopy = (entry: OutboxEntry) => FileSystem.unlink(localPath(entry.request.file.uri)).catch(() => {});
+
+// Unique even for requests queued in the same millisecond
+const newEntryId = () => `outbox-${Date.now()}-${Math.round(Math.random() * 1e6)}`;
+
+// Where an entry's file is kept until it is sent
+async function entryPath(id: string, extension: string) {
+  if (!(await FileSystem.exists(outboxDir))) {
+    await FileSystem.mkdir(outboxDir);
+  }
+  return `${outboxDir}/${id}.${extension}`;
+}
+
+// Requests that failed for lack of network, kept on disk and sent once the backend answers again
+export function OutboxProvider({ children }: { children: React.ReactNode }): React.JSX.Element {
+  const { profile } = useSettings();
+  const clients = useEmotionClients();
+  const { recordResult } = useHistory();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  // Base URLs last found unreachable; each backend is polled and drained on its own
+  const [offline, setOffline] = useState<string[]>([]);
+  const draining = useRef(false);
+  const latest = useLatest({ entries, clients, recordResult, profile });
+
+  useEffect(() => {
+    let cancelled = false;
+    readJsonFile<unknown>(OUTBOX_FILE).then(stored => {
+      if (!cancelled) {
+        setEntries(current => [...normalizeOutbox(stored), ...current]);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const commit = useCallback((update: (current: OutboxEntry[]) => OutboxEntry[]) => {
+    setEntries(current => {
+      const next = update(current);
+      writeJsonFile(OUTBOX_FILE, next).catch(error => console.error('Failed to save outbox:', error));
+      return next;
+    });
+  }, []);
+
+  // Null when a re-extracted frame turns out to have no face
+  const send = useCallback(
+    async (request: OutboxRequest) => {
+      const { clients: current } = latest.current;
+      if (request.kind === 'segment') {
+        return (await analyzeExtractedSegment(localPath(request.file.uri), request.segment, current)).prediction;
+      }
+      return request.modality === 'image'
+        ? current.image.predictFace(request.file)
+        : current.audio.predictAudio(request.file);
+    },
+    [latest],
+  );
+
+  // Send entries oldest first, for every backend or only `baseUrls`. The first entry that finds its
+  // backend down again holds back the rest for that backend; the others carry on.
+  const drain = useCallback(async (baseUrls?: string[]) => {
+    if (draining.current) {
+      return;
+    }
+    draining.current = true;
+    const tried = new Set<string>();
+    const down = new Set<string>();
+    try {
+      for (const entry of latest.current.entries) {
+        const { request } = entry;
+        const baseUrl = requestBaseUrl(request, latest.current.profile);
+        if ((baseUrls && !baseUrls.includes(baseUrl)) || down.has(baseUrl)) {
+          continue;
+        }
+        tried.add(baseUrl);
+        try {
+          const prediction = await send(entry.request);
+          const timing =
+            entry.request.kind === 'segment'
+              ? { start: entry.request.segment.start, duration: entry.request.segment.duration }
+              : undefined;
+          if (prediction) {
+            latest.current.recordResult(entry.session, {
+              modality: requestModality(entry.request),
+              recordedAt: Date.now(),
+              prediction,
+              ...timing,
+            });
+          }
+          commit(current => current.filter(item => item.id !== entry.id));
+          await removeCopy(entry);
+        } catch (error) {
+          if (isOfflineError(error)) {
+            down.add(baseUrl);
+            continue;
+          }
+          console.error(`Outbox entry ${entry.id} failed:`, error);
+          const attempts = entry.attempts + 1;
+          commit(current =>
+            attempts >= MAX_OUTBOX_ATTEMPTS
+              ? current.filter(item => item.id !== entry.id)
+              : current.map(item => (item.id === entry.id ? { ...item, attempts } : item)),
+          );
+          if (attempts >= MAX_OUTBOX_ATTEMPTS) {
+            await removeCopy(entry);
+          }
+        }
+      }
+    } finally {
+      setOffline(current => [...current.filter(baseUrl => !tried.has(baseUrl)), ...down]);
+      draining.current = false;
+    }
+  }, [commit, latest, send]);
+
+  const enqueue = useCallback(
+    (session: SessionInfo, request: OutboxRequest, id: string) => {
+      const baseUrl = requestBaseUrl(request, latest.current.profile);
+      setOffline(current => (current.includes(baseUrl) ? current : [...current, baseUrl]));
+      commit(current => [...current, { id, createdAt: Date.now(), session, request, attempts: 0 }]);
+    },
+    [commit, latest],
+  );
+
+  // Backends with requests waiting, kept stable while only the entries' attempts change
+  const waitingKey = JSON.stringify(waitingBackends(entries, profile));
+  const waiting = useMemo(() => JSON.parse(waitingKey) as WaitingBackend[], [waitingKey]);
+  const online = !waiting.some(({ baseUrl }) => offline.includes(baseUrl));
+
+  const value = useMemo<OutboxContextValue>(
+    () => ({
+      pending: entries.length,
+      online,
+      // Copy the file first: picker URIs and converted files don't outlive the upload
+      enqueueFile: async (session, modality, file) => {
+        const id = newEntryId();
+        const path = await entryPath(id, file.name.match(/\.([^./]+)$/)?.[1] ?? 'bin');
+        await FileSystem.cp(file.uri, path);
+        enqueue(session, { kind: 'file', modality, file: { ...file, uri: `file://${path}` } }, id);
+      },
+      // Extract the segment now: the video is a temp copy that is gone after the next pick or a restart
+      enqueueSegment: async (session, videoUri, segment) => {
+        const id = newEntryId();
+        const extension = segmentExtension(segment.modality);
+        const path = await entryPath(id, extension);
+        try {
+          await extractSegment(videoUri, segment, path);
+        } catch (error) {
+          await FileSystem.unlink(path).catch(() => {});
+          throw error;
+        }
+        const type = segment.modality === 'image' ? 'image/jpeg' : 'audio/wav';
+        enqueue(session, { kind: 'segment', segment, file: { uri: `file://${path}`, type, name: `${id}.${extension}` } }, id);
+      },
+      flush: () => {
+        drain();
+      },
+    }),
+    [entries.length, online, enqueue, drain],
+  );
+
+  // Send right away to backends that are up, and poll the unreachable ones until they answer
+  useEffect(() => {
+    const up = waiting.filter(({ baseUrl }) => !offline.includes(baseUrl)).map(({ baseUrl }) => baseUrl);
+    if (up.length > 0) {
+      drain(up);
+    }
+    const down = waiting.filter(({ baseUrl }) => offline.includes(baseUrl));
+    if (down.length === 0) {
+      return;
+    }
+    const timer = setInterval(() => {
+      down.forEach(async ({ baseUrl, endpoint }) => {
+        const health = await checkEndpoint(baseUrl, endpoint);
+        if (health.status !== 'unreachable') {
+          drain([baseUrl]);
+        }
+      });
+    }, RECONNECT_POLL_MS);
+    return () => clearInterval(timer);
+  }, [waiting, offline, drain]);
+
+  // Coming back to the foreground is a good moment to try again
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active' && latest.current.entries.length > 0) {
+        drain();
+      }
+    });
+    return () => subscription.remove();
+  }, [drain, latest]);
+
+  return <OutboxContext.Provider value={value}>{children}</OutboxContext.Provider>;
+}
+
+export function useOutbox(): OutboxContextValue {
+  const context = useContext(OutboxContext);
+  if (!context) {
+    throw new Error('useOutbox must be used inside an OutboxProvider');
+  }
+  return context;
+}
@@ -0,0 +1,78 @@
+import type { EmotionEndpoint, UploadFile } from '../api/emotionClient';
+import type { SessionInfo } from '../history/sessions';
+import type { BackendProfile } from '../settings/settings';
+import type { Modality } from '../state/ResultsContext';
+import type { VideoSegment } from '../video/segments';
+
+export const OUTBOX_FILE = 'outbox.json';
+
+// Subdirectory of the document directory holding copies of files waiting to be sent
+export const OUTBOX_DIR = 'outbox';
+
+// Entries that keep failing for non-network reasons are dropped after this many sends
+export const MAX_OUTBOX_ATTEMPTS = 5;
+
+// What to send: a file copied into the outbox, or a video segment's frame or audio chunk extracted into
+// it, since the video itself is a temp copy that doesn't outlive the screen
+export type OutboxRequest =
+  | { kind: 'file'; modality: Modality; file: UploadFile }
+  | { kind: 'segment'; segment: VideoSegment; file: UploadFile };
+
+// A request that couldn't be sent while offline; its result goes into `session` once it is
+export interface OutboxEntry {
+  id: string;
+  createdAt: number;
+  session: SessionInfo;
+  request: OutboxRequest;
+  attempts: number;
+}
+
+const isEntry = (value: unknown): value is OutboxEntry => {
+  const entry = value as OutboxEntry;
+  return (
+    typeof entry === 'object' &&
+    entry !== null &&
+    typeof entry.id === 'string' &&
+    typeof entry.session?.id === 'string' &&
+    (entry.request?.kind === 'file' || entry.request?.kind === 'segment') &&
+    typeof entry.request.file?.uri === 'string'
+  );
+};
+
+export const normalizeOutbox = (stored: unknown): OutboxEntry[] =>
+  Array.isArray(stored) ? stored.filter(isEntry) : [];
+
+export const requestModality = (request: OutboxRequest): Modality =>
+  request.kind === 'file' ? request.modality : request.segment.modality;
+
+// Route a request is sent to: uploaded files go to the face and audio models, video frames to the image
+// model and video audio chunks to the chunk model
+export const requestEndpoint = (request: OutboxRequest): EmotionEndpoint => {
+  if (request.kind === 'file') {
+    return request.modality === 'image' ? 'predict-face' : 'predict-audio';
+  }
+  return request.segment.modality === 'image' ? 'predict_image' : 'predict';
+};
+
+// Base URL a request is sent to; a profile may run the image and audio models as separate services
+export const requestBaseUrl = (request: OutboxRequest, profile: BackendProfile): string =>
+  requestModality(request) === 'image' ? profile.imageBaseUrl : profile.audioBaseUrl;
+
+// A backend with requests waiting for it, and the route to poll to see whether it's back
+export interface WaitingBackend {
+  baseUrl: string;
+  endpoint: EmotionEndpoint;
+}
+
+export const waitingBackends = (entries: OutboxEntry[], profile: BackendProfile): WaitingBackend[] => {
+  const byUrl = new Map<string, EmotionEndpoint>();
+  for (const { request } of entries) {
+    const baseUrl = requestBaseUrl(request, profile);
+    if (!byUrl.has(baseUrl)) {
+      byUrl.set(baseUrl, requestEndpoint(request));
+    }
+  }
+  return Array.from(byUrl, ([baseUrl, endpoint]) => ({ baseUrl, endpoint })).sort((a, b) =>
+    a.baseUrl.localeCompare(b.baseUrl),
+  );
+};
@@ -0,0 +1,119 @@
+import { Linking, Permission, PermissionsAndroid, Platform } from 'react-native';
+import { Camera, CameraPermissionRequestResult, CameraPermissionStatus } from 'react-native-vision-camera';
+
+// What the app asks the user for, named by use rather than by platform permission
+export type Capability = 'camera' | 'microphone' | 'images' | 'audio' | 'video';
+
+// 'limited' is Android 14's "selected photos and videos" access: picking still works, on the user's selection.
+// 'blocked' means the system won't prompt again and only the app settings can change it.
+export type PermissionState = 'granted' | 'limited' | 'denied' | 'blocked';
+
+export const CAPABILITY_LABELS: Record<Capability, string> = {
+  camera: 'Camera',
+  microphone: 'Microphone',
+  images: 'Photos',
+  audio: 'Audio files',
+  video: 'Videos',
+};
+
+// Why each capability is needed, shown on the rationale screen
+export const CAPABILITY_RATIONALES: Record<Capability, string> = {
+  camera: 'Live mode classifies the facial expression in the camera preview.',
+  microphone: 'Live mode classifies the tone of voice picked up by the microphone.',
+  images: 'Files mode uploads the photos you pick for classification.',
+  audio: 'Files mode uploads the recordings you pick for classification.',
+  video: 'Video mode analyzes the frames and soundtrack of the video you pick.',
+};
+
+export const isUsable = (state: PermissionState | undefined) => state === 'granted' || state === 'limited';
+
+const { PERMISSIONS, RESULTS } = PermissionsAndroid;
+
+// Android permissions behind a capability on an API level, the full-access one first. Android 13 split
+// storage into per-media permissions and Android 14 added partial photo/video access. Files are only
+// written to the app's own directories, which needs no permission.
+export const androidPermissionsFor = (capability: Capability, apiLevel: number): Permission[] => {
+  switch (capability) {
+    case 'camera':
+      return [PERMISSIONS.CAMERA];
+    case 'microphone':
+      return [PERMISSIONS.RECORD_AUDIO];
+    case 'audio':
+      return [apiLevel >= 33 ? PERMISSIONS.READ_MEDIA_AUDIO : PERMISSIONS.READ_EXTERNAL_STORAGE];
+    case 'images':
+    case 'video': {
+      if (apiLevel < 33) {
+        return [PERMISSIONS.READ_EXTERNAL_STORAGE];
+      }
+      const full = capability === 'images' ? PERMISSIONS.READ_MEDIA_IMAGES : PERMISSIONS.READ_MEDIA_VIDEO;
+      return apiLevel >= 34 ? [full, PERMISSIONS.READ_MEDIA_VISUAL_USER_SELECTED] : [full];
+    }
+  }
+};
+
+// Folds the results for one capability's permissions into its state
+export const androidState = (
+  permissions: Permission[],
+  results: Partial<Record<Permission, string>>,
+): PermissionState => {
+  const [full, ...partial] = permissions;
+  if (results[full] === RESULTS.GRANTED) {
+    return 'granted';
+  }
+  if (partial.some(permission => results[permission] === RESULTS.GRANTED)) {
+    return 'limited';
+  }
+  return results[full] === RESULTS.NEVER_ASK_AGAIN ? 'blocked' : 'denied';
+};
+
+// iOS prompts once; after a refusal only the Settings app can grant access
+export const iosState = (status: CameraPermissionStatus | CameraPermissionRequestResult): PermissionState => {
+  if (status === 'granted') {
+    return 'granted';
+  }
+  return status === 'not-determined' ? 'denied' : 'blocked';
+};
+
+const apiLevel = () => (Platform.OS === 'android' ? Number(Platform.Version) : 0);
+
+// The current state without prompting. Android only reports 'blocked' in answer to a request.
+export async function checkPermission(capability: Capability): Promise<PermissionState> {
+  if (Platform.OS === 'android') {
+    const permissions = androidPermissionsFor(capability, apiLevel());
+    const granted = await Promise.all(permissions.map(permission => PermissionsAndroid.check(permission)));
+    return androidState(
+      permissions,
+      Object.fromEntries(permissions.map((permission, index) => [permission, granted[index] ? RESULTS.GRANTED : RESULTS.DENIED])),
+    );
+  }
+  if (capability === 'camera') {
+    return iosState(Camera.getCameraPermissionStatus());
+  }
+  if (capability === 'microphone') {
+    return iosState(Camera.getMicrophonePermissionStatus());
+  }
+  // The iOS document picker reads files without photo or media library access
+  return 'granted';
+}
+
+// Prompts if the system still allows it and resolves with the resulting state
+export async function requestPermission(capability: Capability): Promise<PermissionState> {
+  try {
+    if (Platform.OS === 'android') {
+      const permissions = androidPermissionsFor(capability, apiLevel());
+      return androidState(permissions, await PermissionsAndroid.requestMultiple(permissions));
+    }
+    if (capability === 'camera') {
+      return iosState(await Camera.requestCameraPermission());
+    }
+    if (capability === 'microphone') {
+      return iosState(await Camera.requestMicrophonePermission());
+    }
+    return 'granted';
+  } catch (error) {
+    console.error(`Permission request for ${capability} failed:`, error);
+    return 'denied';
+  }
+}
+
+export const openAppSettings = () => Linking.openSettings();
@@ -0,0 +1,156 @@
+// What to do with new work when a lane's queue is full:
+// 'drop-oldest' evicts the longest-waiting task, 'coalesce' keeps only the newest one
+export type OverflowPolicy = 'drop-oldest' | 'coalesce';
+
+export interface LaneOptions {
+  concurrency: number;
+  maxQueue: number;
+  policy: OverflowPolicy;
+}
+
+export interface LaneStats {
+  queued: number;
+  running: number;
+  completed: number;
+  failed: number;
+  // Evicted from the queue before they started
+  dropped: number;
+  // Finished after a newer task in the same lane had already delivered, so discarded
+  stale: number;
+}
+
+export interface TaskHandlers<T> {
+  onResult: (value: T, sequence: number) => void;
+  onError?: (error: unknown, sequence: number) => void;
+  onDrop?: (sequence: number) => void;
+}
+
+// Handlers are bound at submit time so lanes can hold tasks of any result type
+interface QueuedTask {
+  sequence: number;
+  run: () => Promise<unknown>;
+  deliver: (value: unknown) => void;
+  fail: (error: unknown) => void;
+  drop: () => void;
+}
+
+interface Lane {
+  options: LaneOptions;
+  queue: QueuedTask[];
+  nextSequence: number;
+  lastDelivered: number;
+  stats: LaneStats;
+}
+
+const emptyStats = (): LaneStats => ({ queued: 0, running: 0, completed: 0, failed: 0, dropped: 0, stale: 0 });
+
+// Runs async work in named lanes with a concurrency cap each. Tasks are numbered per lane;
+// a result is only delivered if nothing newer from that lane has been delivered already.
+export class RequestScheduler<K extends string> {
+  private readonly lanes: Record<K, Lane>;
+  private readonly listeners = new Set<() => void>();
+  private disposed = false;
+
+  constructor(options: Record<K, LaneOptions>) {
+    this.lanes = {} as Record<K, Lane>;
+    for (const key of Object.keys(options) as K[]) {
+      this.lanes[key] = { options: options[key], queue: [], nextSequence: 1, lastDelivered: 0, stats: emptyStats() };
+    }
+  }
+
+  // Queue a task and return its sequence number
+  submit<T>(laneKey: K, run: () => Promise<T>, handlers: TaskHandlers<T>): number {
+    const lane = this.lanes[laneKey];
+    const sequence = lane.nextSequence++;
+    if (this.disposed) {
+      return sequence;
+    }
+    lane.queue.push({
+      sequence,
+      run,
+      deliver: value => handlers.onResult(value as T, sequence),
+      fail: error => handlers.onError?.(error, sequence),
+      drop: () => handlers.onDrop?.(sequence),
+    });
+
+    const limit = lane.options.policy === 'coalesce' ? 1 : Math.max(1, lane.options.maxQueue);
+    while (lane.queue.length > limit) {
+      const evicted = lane.queue.shift() as QueuedTask;
+      lane.stats.dropped++;
+      evicted.drop();
+    }
+    this.pump(lane);
+    this.emit();
+    return sequence;
+  }
+
+  stats(): Record<K, LaneStats> {
+    const snapshot = {} as Record<K, LaneStats>;
+    for (const key of Object.keys(this.lanes) as K[]) {
+      const lane = this.lanes[key];
+      snapshot[key] = { ...lane.stats, queued: lane.queue.length };
+    }
+    return snapshot;
+  }
+
+  get busy(): boolean {
+    return (Object.values(this.lanes) as Lane[]).some(lane => lane.queue.length > 0 || lane.stats.running > 0);
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Forget queued work and ignore results of tasks still in flight
+  clear() {
+    for (const lane of Object.values(this.lanes) as Lane[]) {
+      lane.stats.dropped += lane.queue.length;
+      lane.queue = [];
+      lane.lastDelivered = lane.nextSequence - 1;
+    }
+    this.emit();
+  }
+
+  dispose() {
+    this.clear();
+    this.disposed = true;
+    this.listeners.clear();
+  }
+
+  private pump(lane: Lane) {
+    while (lane.stats.running < lane.options.concurrency && lane.queue.length > 0) {
+      this.start(lane, lane.queue.shift() as QueuedTask);
+    }
+  }
+
+  private async start(lane: Lane, task: QueuedTask) {
+    lane.stats.running++;
+    let outcome: { ok: true; value: unknown } | { ok: false; error: unknown };
+    try {
+      outcome = { ok: true, value: await task.run() };
+    } catch (error) {
+      outcome = { ok: false, error };
+    }
+    lane.stats.running--;
+
+    if (task.sequence <= lane.lastDelivered) {
+      lane.stats.stale++;
+    } else if (outcome.ok) {
+      lane.lastDelivered = task.sequence;
+      lane.stats.completed++;
+      task.deliver(outcome.value);
+    } else {
+      lane.stats.failed++;
+      task.fail(outcome.error);
+    }
+    if (!this.disposed) {
+      this.pump(lane);
+      this.emit();
+    }
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,187 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, FlatList, Alert } from 'react-native';
+import { MODE_LABELS } from '../components/ModeTabs';
+import { useHistory } from '../history/HistoryContext';
+import { AnalysisSession, filterSessions, MODALITY_LABELS, sessionModalities } from '../history/sessions';
+import type { Modality } from '../state/ResultsContext';
+import SessionDetailScreen from './SessionDetailScreen';
+import SummaryScreen from './SummaryScreen';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MODALITY_FILTERS: Array<{ value: Modality | 'all'; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'image', label: MODALITY_LABELS.image },
+  { value: 'audio', label: MODALITY_LABELS.audio },
+];
+
+type DateRange = 'any' | 'today' | 'week' | 'month';
+
+const DATE_FILTERS: Array<{ value: DateRange; label: string }> = [
+  { value: 'any', label: 'Any time' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: '7 days' },
+  { value: 'month', label: '30 days' },
+];
+
+const rangeStart = (range: DateRange, now: number): number | null => {
+  switch (range) {
+    case 'any':
+      return null;
+    case 'today':
+      return new Date(now).setHours(0, 0, 0, 0);
+    case 'week':
+      return now - 7 * DAY_MS;
+    case 'month':
+      return now - 30 * DAY_MS;
+  }
+};
+
+interface ChipsProps<T extends string> {
+  options: Array<{ value: T; label: string }>;
+  value: T;
+  onChange: (value: T) => void;
+}
+
+function Chips<T extends string>({ options, value, onChange }: ChipsProps<T>): React.JSX.Element {
+  return (
+    <View style={styles.chips}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.value}
+          style={[styles.chip, option.value === value && styles.chipActive]}
+          onPress={() => onChange(option.value)}>
+          <Text style={[styles.chipText, option.value === value && styles.chipTextActive]}>{option.label}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+function SessionRow({ session, onPress }: { session: AnalysisSession; onPress: () => void }): React.JSX.Element {
+  const modalities = sessionModalities(session).map(modality => MODALITY_LABELS[modality]);
+  return (
+    <TouchableOpacity style={styles.row} onPress={onPress}>
+      <Text style={styles.rowTitle} numberOfLines={1}>
+        {session.sourceName}
+      </Text>
+      <Text style={styles.rowDetail}>
+        {MODE_LABELS[session.mode]} · {new Date(session.startedAt).toLocaleString()}
+      </Text>
+      <Text style={styles.rowDetail}>
+        {session.results.length} result{session.results.length === 1 ? '' : 's'} · {modalities.join(', ')}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+interface Props {
+  onClose: () => void;
+}
+
+// Past analysis sessions, newest first, with a detail view per session
+function HistoryScreen({ onClose }: Props): React.JSX.Element {
+  const { sessions, loaded, removeSession, clearHistory } = useHistory();
+  const [modality, setModality] = useState<Modality | 'all'>('all');
+  const [range, setRange] = useState<DateRange>('any');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [summarizing, setSummarizing] = useState(false);
+
+  const visible = useMemo(
+    () => filterSessions(sessions, { modality, since: rangeStart(range, Date.now()) }),
+    [sessions, modality, range],
+  );
+  const selected = sessions.find(session => session.id === selectedId);
+
+  if (summarizing) {
+    return (
+      <SummaryScreen
+        title={`${visible.length} session${visible.length === 1 ? '' : 's'}`}
+        sessions={visible}
+        onClose={() => setSummarizing(false)}
+      />
+    );
+  }
+  if (selected) {
+    return (
+      <SessionDetailScreen
+        session={selected}
+        onBack={() => setSelectedId(null)}
+        onDelete={() => {
+          setSelectedId(null);
+          removeSession(selected.id);
+        }}
+      />
+    );
+  }
+
+  const confirmClear = () => {
+    Alert.alert('Clear history', 'Delete every saved session?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete all', style: 'destructive', onPress: clearHistory },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>History</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.link}>Done</Text>
+        </TouchableOpacity>
+      </View>
+      <Chips options={MODALITY_FILTERS} value={modality} onChange={setModality} />
+      <Chips options={DATE_FILTERS} value={range} onChange={setRange} />
+      {visible.length > 0 && (
+        <TouchableOpacity onPress={() => setSummarizing(true)}>
+          <Text style={styles.summaryLink}>
+            Summarize {visible.length === 1 ? 'this session' : `these ${visible.length} sessions`}
+          </Text>
+        </TouchableOpacity>
+      )}
+      <FlatList
+        data={visible}
+        keyExtractor={session => session.id}
+        renderItem={({ item }) => <SessionRow session={item} onPress={() => setSelectedId(item.id)} />}
+        ListEmptyComponent={
+          <Text style={styles.empty}>
+            {!loaded ? 'Loading...' : sessions.length === 0 ? 'No sessions yet.' : 'No sessions match these filters.'}
+          </Text>
+        }
+      />
+      {sessions.length > 0 && (
+        <TouchableOpacity onPress={confirmClear}>
+          <Text style={styles.danger}>Clear all history</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+export default HistoryScreen;
+
+const styles = StyleSheet.create({
+  container: { flex: 1, padding: 20, paddingTop: 50, backgroundColor: '#f5f5f5' },
+  header: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 10 },
+  title: { fontSize: 24, fontWeight: 'bold', color: '#333' },
+  link: { fontSize: 16, color: '#2196F3', fontWeight: 'bold' },
+  summaryLink: { fontSize: 15, color: '#2196F3', marginBottom: 6 },
+  chips: { flexDirection: 'row', flexWrap: 'wrap' },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#2196F3',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipActive: { backgroundColor: '#2196F3' },
+  chipText: { color: '#2196F3' },
+  chipTextActive: { color: 'white', fontWeight: 'bold' },
+  row: { backgroundColor: '#fff', borderRadius: 8, padding: 12, marginVertical: 4 },
+  rowTitle: { fontSize: 16, fontWeight: 'bold', color: '#333' },
+  rowDetail: { fontSize: 13, color: '#555', marginTop: 2 },
+  empty: { fontSize: 15, color: '#555', textAlign: 'center', marginTop: 30 },
+  danger: { color: '#C62828', marginTop: 12, textAlign: 'center' },
+});
@@ -0,0 +1,232 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, AppState, StatusBar } from 'react-native';
+import { Camera, CameraPosition, useCameraDevice } from 'react-native-vision-camera';
+import type { EmotionPrediction } from '../api/emotionClient';
+import { describeApiError } from '../api/errors';
+import { fusePredictions } from '../analysis/fusion';
+import { createSmoother } from '../analysis/smoothing';
+import FaceOverlay from '../components/FaceOverlay';
+import FusedResult from '../components/FusedResult';
+import PermissionRationale from '../components/PermissionRationale';
+import RollingLabels from '../components/RollingLabels';
+import { FaceFrame, primaryPrediction } from '../faces/faceBoxes';
+import { useAudioStreamAnalysis } from '../hooks/useAudioStreamAnalysis';
+import { usePermissions } from '../hooks/usePermissions';
+import { useSessionRecorder } from '../hooks/useSessionRecorder';
+import { useSnapshotAnalysis } from '../hooks/useSnapshotAnalysis';
+import { isUsable } from '../permissions/permissions';
+import { fusionOptions, smoothingOptions, vadOptions } from '../settings/settings';
+import { useEmotionClients, useSettings } from '../settings/SettingsContext';
+import { Modality, useModeResults } from '../state/ResultsContext';
+
+// How many past predictions the overlay keeps per modality
+const ROLLING_LENGTH = 5;
+
+// Live camera + microphone mode
+function LiveScreen(): React.JSX.Element {
+  const { settings } = useSettings();
+  const clients = useEmotionClients({ streaming: true });
+  const {
+    setPrediction,
+    setFaces,
+    setSpeech,
+    setStatus,
+    status,
+    faces,
+    speech,
+    image: latestImage,
+    audio: latestAudio,
+  } = useModeResults('live');
+  const permissions = usePermissions(['camera', 'microphone']);
+  const hasCamera = isUsable(permissions.states.camera);
+  const hasMicrophone = isUsable(permissions.states.microphone);
+  const [position, setPosition] = useState<CameraPosition>('back');
+  const device = useCameraDevice(position);
+  const cameraRef = useRef<Camera>(null);
+  const [appActive, setAppActive] = useState(AppState.currentState === 'active');
+  const [rolling, setRolling] = useState<Record<Modality, EmotionPrediction[]>>({ image: [], audio: [] });
+  const { begin: beginSession, record } = useSessionRecorder('live');
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => setAppActive(state === 'active'));
+    return () => subscription.remove();
+  }, []);
+
+  // Fresh smoothers whenever the smoothing settings change
+  const smoothers = useMemo(() => {
+    const options = smoothingOptions(settings);
+    return { image: createSmoother(options), audio: createSmoother(options) };
+  }, [settings]);
+
+  // Overlay chips and history keep the raw result; the headline label and fusion use the smoothed one
+  const handlePrediction = useCallback(
+    (modality: Modality) => (prediction: EmotionPrediction) => {
+      setPrediction(modality, smoothers[modality].push(prediction));
+      record(modality, prediction);
+      setRolling(current => ({
+        ...current,
+        [modality]: [prediction, ...current[modality]].slice(0, ROLLING_LENGTH),
+      }));
+      setStatus('');
+    },
+    [setPrediction, setStatus, record, smoothers],
+  );
+
+  // The largest face drives the labels; every face gets a box on the preview
+  const handleFrame = (frame: FaceFrame) => {
+    setFaces(frame);
+    const prediction = primaryPrediction(frame);
+    if (prediction) {
+      handlePrediction('image')(prediction);
+    } else {
+      setStatus('No face in view');
+    }
+  };
+
+  const handleError = (modality: Modality) => (error: unknown) => {
+    console.error(`Error processing live ${modality}:`, error);
+    setStatus(`${modality === 'image' ? 'Frame' : 'Audio'} classification failed: ${describeApiError(error)}`);
+  };
+
+  // While nobody is talking the last voice result is stale, so it drops out of the overall emotion
+  const silent = settings.vadEnabled && speech === false;
+
+  const isActive = appActive && device !== undefined && hasCamera;
+
+  // Each stretch of time the camera is live becomes its own history session
+  useEffect(() => {
+    if (isActive) {
+      beginSession(`Live camera (${position})`);
+    }
+  }, [isActive, position, beginSession]);
+
+  useSnapshotAnalysis(cameraRef, {
+    enabled: isActive,
+    intervalMs: settings.liveFrameIntervalMs,
+    client: clients.image,
+    onFrame: handleFrame,
+    onError: handleError('image'),
+  });
+
+  useAudioStreamAnalysis({
+    enabled: appActive && hasMicrophone,
+    windowMs: settings.liveAudioWindowMs,
+    hopMs: settings.liveAudioHopMs,
+    client: clients.audio,
+    vad: vadOptions(settings),
+    onPrediction: handlePrediction('audio'),
+    onVoice: voice => setSpeech(voice.speech),
+    onError: handleError('audio'),
+  });
+
+  if (!permissions.checked) {
+    return <View style={styles.centered} />;
+  }
+  if (!permissions.granted) {
+    return (
+      <PermissionRationale
+        capabilities={['camera', 'microphone']}
+        states={permissions.states}
+        onRequest={permissions.request}
+      />
+    );
+  }
+
+  if (!device) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.messageTitle}>No {position} camera found</Text>
+        {position === 'front' && (
+          <TouchableOpacity style={styles.button} onPress={() => setPosition('back')}>
+            <Text style={styles.buttonText}>Use back camera</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <Camera
+        ref={cameraRef}
+        style={StyleSheet.absoluteFill}
+        device={device}
+        isActive={isActive}
+        video={true}
+        enableZoomGesture
+      />
+      <FaceOverlay
+        frame={faces}
+        fit="cover"
+        threshold={settings.confidenceThreshold}
+        mirrored={position === 'front'}
+      />
+      <TouchableOpacity
+        style={styles.flipButton}
+        onPress={() => setPosition(current => (current === 'back' ? 'front' : 'back'))}>
+        <Text style={styles.flipText}>{position === 'back' ? 'Front camera' : 'Back camera'}</Text>
+      </TouchableOpacity>
+      <View style={styles.overlay}>
+        <RollingLabels
+          title="Image"
+          current={latestImage}
+          idleLabel={faces?.faces.length === 0 ? 'no face' : null}
+          predictions={rolling.image}
+          threshold={settings.confidenceThreshold}
+        />
+        <RollingLabels
+          title="Audio"
+          current={latestAudio}
+          idleLabel={silent ? 'silence' : null}
+          predictions={rolling.audio}
+          threshold={settings.confidenceThreshold}
+        />
+        <FusedResult
+          fused={fusePredictions(latestImage, silent ? null : latestAudio, fusionOptions(settings))}
+          threshold={settings.confidenceThreshold}
+          light
+        />
+        {status ? <Text style={styles.statusText}>{status}</Text> : null}
+      </View>
+    </View>
+  );
+}
+
+export default LiveScreen;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 30,
+  },
+  messageTitle: { fontSize: 20, fontWeight: 'bold', color: '#333', marginBottom: 10, textAlign: 'center' },
+  button: { backgroundColor: '#2196F3', padding: 12, borderRadius: 8, marginVertical: 10 },
+  buttonText: { color: 'white', fontSize: 16, fontWeight: 'bold' },
+  flipButton: {
+    position: 'absolute',
+    top: 16,
+    right: 16,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  flipText: { color: '#fff', fontSize: 14 },
+  overlay: {
+    position: 'absolute',
+    bottom: 20,
+    left: 20,
+    right: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    padding: 10,
+    borderRadius: 10,
+  },
+  statusText: { color: '#FFCC80', fontSize: 13, marginTop: 4 },
+});
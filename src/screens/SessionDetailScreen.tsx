@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { MODE_LABELS } from '../components/ModeTabs';
+import PredictionResult from '../components/PredictionResult';
+import { ExportFile, sessionToCsv, sessionToJson, sessionToWebVtt, timedResults } from '../history/export';
+import { AnalysisSession, MODALITY_LABELS, SessionResult } from '../history/sessions';
+import { saveExport, shareExport } from '../history/shareExport';
+import type { Modality } from '../state/ResultsContext';
+import { smoothingOptions } from '../settings/settings';
+import { useSettings } from '../settings/SettingsContext';
+import SummaryScreen from './SummaryScreen';
+
+// Video results are labelled by media position, everything else by wall-clock time
+const resultTitle = (result: SessionResult) =>
+  `${MODALITY_LABELS[result.modality]} @ ${
+    result.start !== undefined ? `${result.start.toFixed(1)}s` : new Date(result.recordedAt).toLocaleTimeString()
+  }`;
+
+// Ask where an export should go, then share or save it
+const exportFile = (file: ExportFile) => {
+  const run = (action: () => Promise<unknown>) =>
+    action().catch(error => {
+      console.error(`Failed to export ${file.name}:`, error);
+      Alert.alert('Export failed', error instanceof Error ? error.message : String(error));
+    });
+  Alert.alert('Export', file.name, [
+    { text: 'Cancel', style: 'cancel' },
+    { text: 'Share', onPress: () => run(() => shareExport(file)) },
+    { text: 'Save to device', onPress: () => run(() => saveExport(file)) },
+  ]);
+};
+
+interface Props {
+  session: AnalysisSession;
+  onBack: () => void;
+  onDelete: () => void;
+}
+
+// Every result stored for one session
+function SessionDetailScreen({ session, onBack, onDelete }: Props): React.JSX.Element {
+  const { settings } = useSettings();
+  const smoothing = smoothingOptions(settings);
+  const [showSummary, setShowSummary] = useState(false);
+  const subtitleModalities = (['image', 'audio'] as Modality[]).filter(
+    modality => timedResults(session, modality).length > 0,
+  );
+  const exports: Array<{ label: string; build: () => ExportFile }> = [
+    { label: 'CSV', build: () => sessionToCsv(session, smoothing) },
+    { label: 'JSON', build: () => sessionToJson(session, smoothing) },
+    ...subtitleModalities.map(modality => ({
+      label: `${MODALITY_LABELS[modality]} WebVTT`,
+      build: () => sessionToWebVtt(session, modality, smoothing),
+    })),
+  ];
+
+  if (showSummary) {
+    return <SummaryScreen title={session.sourceName} sessions={[session]} onClose={() => setShowSummary(false)} />;
+  }
+
+  const confirmDelete = () => {
+    Alert.alert('Delete session', `Delete "${session.sourceName}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: onDelete },
+    ]);
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack}>
+          <Text style={styles.link}>Back</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={confirmDelete}>
+          <Text style={styles.danger}>Delete</Text>
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.title}>{session.sourceName}</Text>
+      <Text style={styles.meta}>
+        {MODE_LABELS[session.mode]} · started {new Date(session.startedAt).toLocaleString()}
+      </Text>
+      <TouchableOpacity onPress={() => setShowSummary(true)}>
+        <Text style={styles.summaryLink}>View summary</Text>
+      </TouchableOpacity>
+      <View style={styles.exports}>
+        {exports.map(item => (
+          <TouchableOpacity key={item.label} style={styles.smallButton} onPress={() => exportFile(item.build())}>
+            <Text style={styles.smallButtonText}>{item.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {session.results.map((result, index) => (
+        <View key={`${result.recordedAt}-${index}`} style={styles.result}>
+          <PredictionResult
+            title={resultTitle(result)}
+            prediction={result.prediction}
+            threshold={settings.confidenceThreshold}
+          />
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
+
+export default SessionDetailScreen;
+
+const styles = StyleSheet.create({
+  container: { padding: 20, paddingTop: 50, backgroundColor: '#f5f5f5' },
+  header: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 10 },
+  link: { fontSize: 16, color: '#2196F3', fontWeight: 'bold' },
+  danger: { fontSize: 16, color: '#C62828' },
+  title: { fontSize: 22, fontWeight: 'bold', color: '#333' },
+  meta: { fontSize: 14, color: '#555', marginBottom: 10 },
+  summaryLink: { fontSize: 15, color: '#2196F3', fontWeight: 'bold', marginBottom: 10 },
+  exports: { flexDirection: 'row', flexWrap: 'wrap', marginBottom: 6 },
+  smallButton: {
+    backgroundColor: '#2196F3',
+    borderRadius: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 6,
+  },
+  smallButtonText: { color: 'white', fontWeight: 'bold' },
+  result: { backgroundColor: '#fff', borderRadius: 8, padding: 10, marginVertical: 4 },
+});
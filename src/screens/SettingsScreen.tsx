@@ -0,0 +1,414 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ScrollView, Alert, Switch } from 'react-native';
+import type { EmotionEndpoint } from '../api/emotionClient';
+import { checkEndpoint, EndpointHealth } from '../api/health';
+import type { FusionStrategy } from '../analysis/fusion';
+import type { SmoothingStrategy } from '../analysis/smoothing';
+import { isValidBaseUrl, StreamingTransport } from '../settings/settings';
+import { useSettings } from '../settings/SettingsContext';
+import Stepper from '../components/Stepper';
+import ThresholdControl from '../components/ThresholdControl';
+import { MAX_VIDEO_IMPORT_MB } from '../video/importVideo';
+
+const IMAGE_ENDPOINTS: EmotionEndpoint[] = ['predict-face', 'predict_image'];
+const AUDIO_ENDPOINTS: EmotionEndpoint[] = ['predict-audio', 'predict'];
+
+const FUSION_STRATEGIES: Array<{ value: FusionStrategy; label: string }> = [
+  { value: 'weighted-average', label: 'Weighted average' },
+  { value: 'max-confidence', label: 'Most confident' },
+];
+
+const SMOOTHING_STRATEGIES: Array<{ value: SmoothingStrategy; label: string }> = [
+  { value: 'none', label: 'Off' },
+  { value: 'majority', label: 'Majority vote' },
+  { value: 'ema', label: 'Moving average' },
+  { value: 'hysteresis', label: 'Hysteresis' },
+];
+
+const TRANSPORTS: Array<{ value: StreamingTransport; label: string }> = [
+  { value: 'http', label: 'HTTP' },
+  { value: 'websocket', label: 'WebSocket' },
+];
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(2)} s`;
+
+const HEALTH_COLORS: Record<EndpointHealth['status'], string> = {
+  ok: '#2E7D32',
+  missing: '#E65100',
+  error: '#C62828',
+  unreachable: '#C62828',
+};
+
+interface UrlFieldProps {
+  label: string;
+  value: string;
+  endpoints: EmotionEndpoint[];
+  onSave: (url: string) => void;
+}
+
+// Editable base URL with a "Test" button per endpoint served from it
+function UrlField({ label, value, endpoints, onSave }: UrlFieldProps): React.JSX.Element {
+  const [draft, setDraft] = useState(value);
+  const [health, setHealth] = useState<Partial<Record<EmotionEndpoint, EndpointHealth | 'pending'>>>({});
+
+  useEffect(() => {
+    setDraft(value);
+    setHealth({});
+  }, [value]);
+
+  const save = () => {
+    const url = draft.trim();
+    if (url === value) {
+      return;
+    }
+    if (!isValidBaseUrl(url)) {
+      Alert.alert('Invalid URL', 'Base URLs must start with http:// or https://');
+      setDraft(value);
+      return;
+    }
+    onSave(url);
+  };
+
+  const test = async (endpoint: EmotionEndpoint) => {
+    setHealth(current => ({ ...current, [endpoint]: 'pending' }));
+    const result = await checkEndpoint(draft.trim(), endpoint);
+    setHealth(current => ({ ...current, [endpoint]: result }));
+  };
+
+  return (
+    <View style={styles.field}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        value={draft}
+        onChangeText={setDraft}
+        onEndEditing={save}
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="url"
+      />
+      {endpoints.map(endpoint => {
+        const result = health[endpoint];
+        return (
+          <View key={endpoint} style={styles.endpointRow}>
+            <Text style={styles.endpointName}>/{endpoint}</Text>
+            {result === 'pending' ? (
+              <Text style={styles.endpointStatus}>Testing...</Text>
+            ) : result ? (
+              <Text style={[styles.endpointStatus, { color: HEALTH_COLORS[result.status] }]}>{result.message}</Text>
+            ) : (
+              <Text style={styles.endpointStatus} />
+            )}
+            <TouchableOpacity style={styles.smallButton} onPress={() => test(endpoint)}>
+              <Text style={styles.smallButtonText}>Test</Text>
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+interface Props {
+  onClose: () => void;
+}
+
+function SettingsScreen({ onClose }: Props): React.JSX.Element {
+  const { settings, profile, updateSettings, updateProfile, addProfile, removeProfile } = useSettings();
+  const [nameDraft, setNameDraft] = useState(profile.name);
+
+  useEffect(() => setNameDraft(profile.name), [profile.name]);
+
+  const confirmRemove = () => {
+    Alert.alert('Delete profile', `Delete "${profile.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => removeProfile(profile.id) },
+    ]);
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Settings</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.link}>Done</Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.sectionTitle}>Backend profile</Text>
+      <View style={styles.chips}>
+        {settings.profiles.map(item => (
+          <TouchableOpacity
+            key={item.id}
+            style={[styles.chip, item.id === profile.id && styles.chipActive]}
+            onPress={() => updateSettings({ activeProfileId: item.id })}>
+            <Text style={[styles.chipText, item.id === profile.id && styles.chipTextActive]}>{item.name}</Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity style={styles.chip} onPress={() => addProfile('New profile')}>
+          <Text style={styles.chipText}>+ Add</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.field}>
+        <Text style={styles.fieldLabel}>Profile name</Text>
+        <TextInput
+          style={styles.input}
+          value={nameDraft}
+          onChangeText={setNameDraft}
+          onEndEditing={() => nameDraft.trim() && updateProfile(profile.id, { name: nameDraft.trim() })}
+        />
+      </View>
+      <UrlField
+        label="Image service URL"
+        value={profile.imageBaseUrl}
+        endpoints={IMAGE_ENDPOINTS}
+        onSave={url => updateProfile(profile.id, { imageBaseUrl: url })}
+      />
+      <UrlField
+        label="Audio service URL"
+        value={profile.audioBaseUrl}
+        endpoints={AUDIO_ENDPOINTS}
+        onSave={url => updateProfile(profile.id, { audioBaseUrl: url })}
+      />
+      {settings.profiles.length > 1 && (
+        <TouchableOpacity onPress={confirmRemove}>
+          <Text style={styles.danger}>Delete this profile</Text>
+        </TouchableOpacity>
+      )}
+
+      <Stepper
+        label="Request timeout"
+        value={settings.requestTimeoutMs}
+        onChange={requestTimeoutMs => updateSettings({ requestTimeoutMs })}
+        step={5000}
+        min={5000}
+        max={120000}
+        format={ms => `${ms / 1000} s`}
+      />
+
+      <Text style={styles.fieldLabel}>Live and video transport</Text>
+      <View style={styles.chips}>
+        {TRANSPORTS.map(item => (
+          <TouchableOpacity
+            key={item.value}
+            style={[styles.chip, item.value === settings.streamingTransport && styles.chipActive]}
+            onPress={() => updateSettings({ streamingTransport: item.value })}>
+            <Text style={[styles.chipText, item.value === settings.streamingTransport && styles.chipTextActive]}>
+              {item.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.sectionTitle}>Results</Text>
+      <ThresholdControl
+        value={settings.confidenceThreshold}
+        onChange={confidenceThreshold => updateSettings({ confidenceThreshold })}
+      />
+
+      <Text style={styles.sectionTitle}>Face and voice fusion</Text>
+      <View style={styles.chips}>
+        {FUSION_STRATEGIES.map(item => (
+          <TouchableOpacity
+            key={item.value}
+            style={[styles.chip, item.value === settings.fusionStrategy && styles.chipActive]}
+            onPress={() => updateSettings({ fusionStrategy: item.value })}>
+            <Text style={[styles.chipText, item.value === settings.fusionStrategy && styles.chipTextActive]}>
+              {item.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {settings.fusionStrategy === 'weighted-average' && (
+        <Stepper
+          label="Face weight"
+          value={settings.fusionFaceWeight}
+          onChange={fusionFaceWeight => updateSettings({ fusionFaceWeight })}
+          step={0.1}
+          min={0}
+          max={1}
+          format={weight => `${Math.round(weight * 100)}% face / ${Math.round((1 - weight) * 100)}% voice`}
+        />
+      )}
+
+      <Text style={styles.sectionTitle}>Smoothing</Text>
+      <View style={styles.chips}>
+        {SMOOTHING_STRATEGIES.map(item => (
+          <TouchableOpacity
+            key={item.value}
+            style={[styles.chip, item.value === settings.smoothingStrategy && styles.chipActive]}
+            onPress={() => updateSettings({ smoothingStrategy: item.value })}>
+            <Text style={[styles.chipText, item.value === settings.smoothingStrategy && styles.chipTextActive]}>
+              {item.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {settings.smoothingStrategy === 'majority' && (
+        <Stepper
+          label="Vote window"
+          value={settings.smoothingWindow}
+          onChange={smoothingWindow => updateSettings({ smoothingWindow })}
+          step={1}
+          min={2}
+          max={15}
+          format={count => `last ${count} results`}
+        />
+      )}
+      {settings.smoothingStrategy === 'ema' && (
+        <Stepper
+          label="Weight of newest result"
+          value={settings.smoothingAlpha}
+          onChange={smoothingAlpha => updateSettings({ smoothingAlpha })}
+          step={0.1}
+          min={0.1}
+          max={0.9}
+          format={alpha => `${Math.round(alpha * 100)}%`}
+        />
+      )}
+      {settings.smoothingStrategy === 'hysteresis' && (
+        <Stepper
+          label="Switch after"
+          value={settings.smoothingHysteresis}
+          onChange={smoothingHysteresis => updateSettings({ smoothingHysteresis })}
+          step={1}
+          min={2}
+          max={10}
+          format={count => `${count} results in a row`}
+        />
+      )}
+
+      <Text style={styles.sectionTitle}>Voice activity</Text>
+      <View style={styles.switchRow}>
+        <Text style={styles.switchLabel}>Skip silent audio</Text>
+        <Switch value={settings.vadEnabled} onValueChange={vadEnabled => updateSettings({ vadEnabled })} />
+      </View>
+      {settings.vadEnabled && (
+        <>
+          <Stepper
+            label="Loudness threshold"
+            value={settings.vadEnergyThresholdDb}
+            onChange={vadEnergyThresholdDb => updateSettings({ vadEnergyThresholdDb })}
+            step={5}
+            min={-70}
+            max={-20}
+            format={db => `${db} dBFS`}
+          />
+          <Stepper
+            label="Noise cut-off (zero crossings)"
+            value={settings.vadMaxZeroCrossingRate}
+            onChange={vadMaxZeroCrossingRate => updateSettings({ vadMaxZeroCrossingRate })}
+            step={0.05}
+            min={0.1}
+            max={0.6}
+            format={rate => `${Math.round(rate * 100)}%`}
+          />
+          <Stepper
+            label="Speech needed per window"
+            value={settings.vadMinSpeechRatio}
+            onChange={vadMinSpeechRatio => updateSettings({ vadMinSpeechRatio })}
+            step={0.05}
+            min={0.05}
+            max={0.8}
+            format={ratio => `${Math.round(ratio * 100)}%`}
+          />
+        </>
+      )}
+
+      <Text style={styles.sectionTitle}>Video mode</Text>
+      <Stepper
+        label="Largest video to import"
+        value={settings.maxVideoImportMb}
+        onChange={maxVideoImportMb => updateSettings({ maxVideoImportMb })}
+        step={256}
+        min={256}
+        max={MAX_VIDEO_IMPORT_MB}
+        format={mb => `${mb} MB`}
+      />
+
+      <Text style={styles.sectionTitle}>Live mode</Text>
+      <Stepper
+        label="Frame analysis interval"
+        value={settings.liveFrameIntervalMs}
+        onChange={liveFrameIntervalMs => updateSettings({ liveFrameIntervalMs })}
+        step={250}
+        min={250}
+        max={5000}
+        format={formatSeconds}
+      />
+      <Stepper
+        label="Audio window length"
+        value={settings.liveAudioWindowMs}
+        onChange={liveAudioWindowMs =>
+          updateSettings({
+            liveAudioWindowMs,
+            liveAudioHopMs: Math.min(settings.liveAudioHopMs, liveAudioWindowMs),
+          })
+        }
+        step={250}
+        min={500}
+        max={10000}
+        format={formatSeconds}
+      />
+      <Stepper
+        label="Audio window hop"
+        value={settings.liveAudioHopMs}
+        onChange={liveAudioHopMs => updateSettings({ liveAudioHopMs })}
+        step={250}
+        min={250}
+        max={settings.liveAudioWindowMs}
+        format={formatSeconds}
+      />
+
+      <Text style={styles.sectionTitle}>Developer</Text>
+      <View style={styles.switchRow}>
+        <Text style={styles.switchLabel}>Show debug info</Text>
+        <Switch value={settings.showDebugInfo} onValueChange={showDebugInfo => updateSettings({ showDebugInfo })} />
+      </View>
+    </ScrollView>
+  );
+}
+
+export default SettingsScreen;
+
+const styles = StyleSheet.create({
+  container: { padding: 20, paddingTop: 50, backgroundColor: '#f5f5f5' },
+  header: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 10 },
+  title: { fontSize: 24, fontWeight: 'bold', color: '#333' },
+  link: { fontSize: 16, color: '#2196F3', fontWeight: 'bold' },
+  sectionTitle: { fontSize: 18, fontWeight: 'bold', color: '#333', marginTop: 20, marginBottom: 8 },
+  chips: { flexDirection: 'row', flexWrap: 'wrap' },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#2196F3',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipActive: { backgroundColor: '#2196F3' },
+  chipText: { color: '#2196F3' },
+  chipTextActive: { color: 'white', fontWeight: 'bold' },
+  field: { marginVertical: 8 },
+  fieldLabel: { fontSize: 14, color: '#555', marginBottom: 4 },
+  input: {
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 15,
+    color: '#333',
+  },
+  endpointRow: { flexDirection: 'row', alignItems: 'center', marginTop: 6 },
+  endpointName: { width: 110, fontSize: 13, color: '#333' },
+  endpointStatus: { flex: 1, fontSize: 13, color: '#555' },
+  smallButton: { backgroundColor: '#2196F3', borderRadius: 6, paddingHorizontal: 12, paddingVertical: 6 },
+  smallButtonText: { color: 'white', fontWeight: 'bold' },
+  danger: { color: '#C62828', marginTop: 8 },
+  switchRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginVertical: 6 },
+  switchLabel: { fontSize: 14, color: '#555' },
+});
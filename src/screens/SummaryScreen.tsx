@@ -0,0 +1,136 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { formatPercent } from '../analysis/confidence';
+import { emotionColor } from '../analysis/emotionColors';
+import { MODALITY_LABELS, AnalysisSession } from '../history/sessions';
+import { AgreementSummary, ModalitySummary, summarizeSessions } from '../history/summary';
+import { fusionOptions } from '../settings/settings';
+import { useSettings } from '../settings/SettingsContext';
+
+const formatSeconds = (seconds: number) => {
+  const whole = Math.round(seconds);
+  return whole >= 60 ? `${Math.floor(whole / 60)}m ${whole % 60}s` : `${whole}s`;
+};
+
+function ModalityCard({ summary }: { summary: ModalitySummary }): React.JSX.Element {
+  const timed = summary.seconds > 0;
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>{MODALITY_LABELS[summary.modality]}</Text>
+      <Text style={styles.detail}>
+        Mostly <Text style={styles.dominant}>{summary.dominant}</Text> · {summary.count} result
+        {summary.count === 1 ? '' : 's'}
+        {timed ? ` over ${formatSeconds(summary.seconds)}` : ''}
+      </Text>
+      <View style={styles.stack}>
+        {summary.emotions.map(emotion => (
+          <View key={emotion.label} style={{ flex: emotion.share, backgroundColor: emotionColor(emotion.label) }} />
+        ))}
+      </View>
+      {summary.emotions.map(emotion => (
+        <View key={emotion.label} style={styles.row}>
+          <View style={[styles.swatch, { backgroundColor: emotionColor(emotion.label) }]} />
+          <Text style={styles.label} numberOfLines={1}>
+            {emotion.label}
+          </Text>
+          <View style={styles.track}>
+            <View
+              style={[styles.bar, { width: `${emotion.share * 100}%`, backgroundColor: emotionColor(emotion.label) }]}
+            />
+          </View>
+          <Text style={styles.value}>{formatPercent(emotion.share)}</Text>
+          <Text style={styles.extra}>{timed ? formatSeconds(emotion.seconds) : `×${emotion.count}`}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+function AgreementCard({ agreement }: { agreement: AgreementSummary }): React.JSX.Element {
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Face and voice agreement</Text>
+      {agreement.compared === 0 ? (
+        <Text style={styles.detail}>No stretch of media had both a face and a voice result to compare.</Text>
+      ) : (
+        <>
+          <Text style={styles.detail}>
+            Agreed on {agreement.agreed} of {agreement.compared} moments (
+            {formatPercent(agreement.agreed / agreement.compared)})
+            {agreement.comparedSeconds > 0
+              ? `, ${formatSeconds(agreement.agreedSeconds)} of ${formatSeconds(agreement.comparedSeconds)}`
+              : ''}
+          </Text>
+          <View style={styles.stack}>
+            <View style={[styles.agree, { flex: agreement.agreed }]} />
+            <View style={[styles.disagree, { flex: agreement.compared - agreement.agreed }]} />
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+interface Props {
+  title: string;
+  sessions: AnalysisSession[];
+  onClose: () => void;
+}
+
+// Overview of what one or more sessions found: per-modality distribution, dominant emotion,
+// time in each emotion and how often face and voice agreed
+function SummaryScreen({ title, sessions, onClose }: Props): React.JSX.Element {
+  const { settings } = useSettings();
+  const summary = useMemo(() => summarizeSessions(sessions, fusionOptions(settings)), [sessions, settings]);
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.link}>Back</Text>
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.title}>{title}</Text>
+      <Text style={styles.meta}>
+        {summary.sessions} session{summary.sessions === 1 ? '' : 's'} · {summary.results} result
+        {summary.results === 1 ? '' : 's'}
+      </Text>
+      {summary.modalities.length === 0 ? (
+        <Text style={styles.empty}>No results to summarize yet.</Text>
+      ) : (
+        <>
+          {summary.modalities.map(modality => (
+            <ModalityCard key={modality.modality} summary={modality} />
+          ))}
+          {summary.modalities.length > 1 && <AgreementCard agreement={summary.agreement} />}
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+export default SummaryScreen;
+
+const styles = StyleSheet.create({
+  container: { padding: 20, paddingTop: 50, backgroundColor: '#f5f5f5' },
+  header: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 10 },
+  link: { fontSize: 16, color: '#2196F3', fontWeight: 'bold' },
+  title: { fontSize: 22, fontWeight: 'bold', color: '#333' },
+  meta: { fontSize: 14, color: '#555', marginBottom: 10 },
+  empty: { fontSize: 15, color: '#555', textAlign: 'center', marginTop: 30 },
+  card: { backgroundColor: '#fff', borderRadius: 8, padding: 12, marginVertical: 6 },
+  cardTitle: { fontSize: 17, fontWeight: 'bold', color: '#333' },
+  detail: { fontSize: 14, color: '#555', marginTop: 4 },
+  dominant: { fontWeight: 'bold', color: '#333' },
+  // Whole distribution as one stacked bar
+  stack: { flexDirection: 'row', height: 14, borderRadius: 7, overflow: 'hidden', marginVertical: 10 },
+  agree: { backgroundColor: '#43A047' },
+  disagree: { backgroundColor: '#E65100' },
+  row: { flexDirection: 'row', alignItems: 'center', marginVertical: 2 },
+  swatch: { width: 10, height: 10, borderRadius: 2, marginRight: 6 },
+  label: { width: 74, fontSize: 13, color: '#333' },
+  track: { flex: 1, height: 10, backgroundColor: '#eee', borderRadius: 5, overflow: 'hidden' },
+  bar: { height: '100%' },
+  value: { width: 44, fontSize: 13, color: '#555', textAlign: 'right' },
+  extra: { width: 54, fontSize: 13, color: '#888', textAlign: 'right' },
+});
@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { Text, StyleSheet, TouchableOpacity, Alert, ScrollView, Modal } from 'react-native';
+import { errorCodes, isErrorWithCode, pick } from '@react-native-documents/picker';
+import type { UploadProgress } from '../api/emotionClient';
+import { describeApiError, EmotionApiError } from '../api/errors';
+import { isOfflineError } from '../api/retry';
+import PermissionRationale from '../components/PermissionRationale';
+import ResultsPanel from '../components/ResultsPanel';
+import UploadJobList from '../components/UploadJobList';
+import { useHistory } from '../history/HistoryContext';
+import { usePermissionGate } from '../hooks/usePermissions';
+import { useSessionRecorder } from '../hooks/useSessionRecorder';
+import { useUploadQueue } from '../hooks/useUploadQueue';
+import { useOutbox } from '../outbox/OutboxContext';
+import { useEmotionClients, useSettings } from '../settings/SettingsContext';
+import { Modality, useModeResults } from '../state/ResultsContext';
+import { prepareUpload } from '../upload/prepareUpload';
+import type { UploadJob } from '../upload/uploadJobs';
+import SummaryScreen from './SummaryScreen';
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+// Image/audio file upload mode; picked files are classified one after another
+function UploadScreen(): React.JSX.Element {
+  const { settings } = useSettings();
+  const clients = useEmotionClients({ retry: true });
+  const outbox = useOutbox();
+  const results = useModeResults('upload');
+  const { setPrediction, setStatus: setProcessingStatus } = results;
+  const recorder = useSessionRecorder('upload');
+  const { sessions } = useHistory();
+  // Each file is its own history session; the batch is every session started since the list was last cleared
+  const [batchIds, setBatchIds] = useState<string[]>([]);
+  const batchSessions = sessions.filter(session => batchIds.includes(session.id));
+  const [showSummary, setShowSummary] = useState(false);
+
+  const permissionGate = usePermissionGate();
+
+  // Pick any number of files of one kind and add them to the upload queue
+  const pickFiles = async (modality: Modality) => {
+    const noun = modality === 'image' ? 'images' : 'audio';
+    try {
+      if (!(await permissionGate.ensure(modality === 'image' ? 'images' : 'audio', `select ${noun}`))) {
+        return;
+      }
+
+      const picked = await pick({
+        type: modality === 'image' ? 'image/*' : 'audio/*',
+        allowMultiSelection: true,
+      });
+
+      const now = Date.now();
+      dispatch({
+        type: 'enqueue',
+        jobs: picked.map((file, index) => ({
+          id: `${now}-${index}`,
+          modality,
+          name: file.name ?? `${modality} ${index + 1}`,
+          uri: file.uri,
+          type: file.type,
+          size: file.size,
+          status: 'queued',
+        })),
+      });
+      setProcessingStatus(`Queued ${picked.length} file${picked.length === 1 ? '' : 's'}.`);
+    } catch (err) {
+      if (isErrorWithCode(err) && err.code === errorCodes.OPERATION_CANCELED) {
+        return;
+      }
+      console.error(`Error picking ${noun}:`, err);
+      Alert.alert('Error', `Failed to pick ${noun}.`);
+    }
+  };
+
+  // Convert the file if needed, then upload it to the matching backend endpoint
+  const uploadJob = async (job: UploadJob, signal: AbortSignal) => {
+    recorder.begin(job.name);
+    const started = recorder.current();
+    if (started) {
+      setBatchIds(ids => [...ids, started.id]);
+    }
+    setProcessingStatus(`Preparing ${job.name}...`);
+    // Cancelling while converting stops FFmpeg and fails the job like a cancelled upload
+    const endpoint = job.modality === 'image' ? 'predict-face' : 'predict-audio';
+    const cancelled = () => new EmotionApiError('cancelled', endpoint, 'Request cancelled');
+    const prepared = await prepareUpload(job, signal).catch(error => {
+      throw signal.aborted ? cancelled() : error;
+    });
+    try {
+      if (signal.aborted) {
+        throw cancelled();
+      }
+      const label = `${prepared.file.name}${prepared.converted ? ' (converted)' : ''}`;
+      setProcessingStatus(`Uploading ${label}...`);
+      const options = {
+        signal,
+        onProgress: ({ sent, total }: UploadProgress) =>
+          setProcessingStatus(
+            total > 0
+              ? `Uploading ${label}: ${Math.round((sent / total) * 100)}% of ${formatBytes(total)}`
+              : `Uploading ${label}: ${formatBytes(sent)} sent`,
+          ),
+      };
+      try {
+        return job.modality === 'image'
+          ? await clients.image.predictFace(prepared.file, options)
+          : await clients.audio.predictAudio(prepared.file, options);
+      } catch (error) {
+        const session = recorder.current();
+        if (!isOfflineError(error) || !session) {
+          throw error;
+        }
+        await outbox.enqueueFile(session, job.modality, prepared.file);
+        setProcessingStatus(`Offline: ${job.name} will be sent when the server is reachable.`);
+        return null;
+      }
+    } finally {
+      await prepared.cleanup();
+    }
+  };
+
+  const { jobs, dispatch, cancelCurrent } = useUploadQueue({
+    upload: uploadJob,
+    onDone: (job, prediction) => {
+      setPrediction(job.modality, prediction);
+      recorder.record(job.modality, prediction);
+      setProcessingStatus(`${job.name} classified.`);
+    },
+    onFailed: (job, error) => {
+      console.error(`Error uploading ${job.name}:`, error);
+      setProcessingStatus(`${job.name} failed: ${describeApiError(error)}`);
+    },
+  });
+  const isProcessing = jobs.some(job => job.status === 'queued' || job.status === 'uploading');
+  const isUploading = jobs.some(job => job.status === 'uploading');
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <Text style={styles.title}>Media Analyzer</Text>
+      <TouchableOpacity style={styles.button} onPress={() => pickFiles('image')}>
+        <Text style={styles.buttonText}>Upload Images</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.button} onPress={() => pickFiles('audio')}>
+        <Text style={styles.buttonText}>Upload Audio</Text>
+      </TouchableOpacity>
+
+      {results.status ? (
+        <Text style={styles.statusText}>
+          {isProcessing ? 'Processing... ' : ''}
+          {results.status}
+        </Text>
+      ) : null}
+      {isUploading && (
+        <TouchableOpacity style={styles.cancelButton} onPress={cancelCurrent}>
+          <Text style={styles.cancelText}>Cancel current upload</Text>
+        </TouchableOpacity>
+      )}
+
+      <UploadJobList
+        jobs={jobs}
+        threshold={settings.confidenceThreshold}
+        onRetry={id => dispatch({ type: 'retry', id })}
+        onClearFinished={() => {
+          dispatch({ type: 'clearFinished' });
+          setBatchIds([]);
+        }}
+      />
+      {batchSessions.length > 0 && (
+        <TouchableOpacity style={styles.summaryButton} onPress={() => setShowSummary(true)}>
+          <Text style={styles.summaryText}>View batch summary</Text>
+        </TouchableOpacity>
+      )}
+
+      <ResultsPanel results={results} />
+
+      <Modal visible={permissionGate.blocked !== null} animationType="slide" onRequestClose={permissionGate.dismiss}>
+        {permissionGate.blocked && (
+          <PermissionRationale
+            capabilities={[permissionGate.blocked]}
+            states={{ [permissionGate.blocked]: 'blocked' }}
+            onRequest={permissionGate.dismiss}
+            onClose={permissionGate.dismiss}
+          />
+        )}
+      </Modal>
+      <Modal visible={showSummary} animationType="slide" onRequestClose={() => setShowSummary(false)}>
+        <SummaryScreen title="Upload batch" sessions={batchSessions} onClose={() => setShowSummary(false)} />
+      </Modal>
+    </ScrollView>
+  );
+}
+
+export default UploadScreen;
+
+const styles = StyleSheet.create({
+  container: { flexGrow: 1, backgroundColor: '#f5f5f5', paddingTop: 20, paddingBottom: 20, alignItems: 'center' },
+  title: { fontSize: 24, marginBottom: 20, fontWeight: 'bold', color: '#333' },
+  button: {
+    backgroundColor: '#2196F3',
+    padding: 12,
+    borderRadius: 8,
+    marginVertical: 10,
+    width: '80%',
+    alignItems: 'center',
+  },
+  buttonText: { color: 'white', fontSize: 16, fontWeight: 'bold' },
+  cancelButton: { borderWidth: 1, borderColor: '#C62828', borderRadius: 8, paddingHorizontal: 14, paddingVertical: 8 },
+  cancelText: { color: '#C62828', fontWeight: 'bold' },
+  statusText: { fontSize: 14, color: '#555', marginBottom: 10, textAlign: 'center' },
+  summaryButton: { borderWidth: 1, borderColor: '#2196F3', borderRadius: 8, paddingHorizontal: 14, paddingVertical: 8, marginTop: 10 },
+  summaryText: { color: '#2196F3', fontWeight: 'bold' },
+});
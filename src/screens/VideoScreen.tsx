@@ -0,0 +1,412 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ScrollView,
+  Modal,
+} from 'react-native';
+import Video, { VideoRef } from 'react-native-video';
+import { pick } from '@react-native-documents/picker';
+import { describeApiError } from '../api/errors';
+import { isOfflineError } from '../api/retry';
+import { fuseTimeline } from '../analysis/fusion';
+import { smoothTimeline } from '../analysis/smoothing';
+import { timelineFor } from '../analysis/timeline';
+import EmotionTimeline from '../components/EmotionTimeline';
+import FaceOverlay from '../components/FaceOverlay';
+import FusedResult from '../components/FusedResult';
+import PermissionRationale from '../components/PermissionRationale';
+import ResultsPanel from '../components/ResultsPanel';
+import SchedulerDebugPanel from '../components/SchedulerDebugPanel';
+import { useHistory } from '../history/HistoryContext';
+import { BatchPhase, useBatchAnalysis } from '../hooks/useBatchAnalysis';
+import { usePermissionGate } from '../hooks/usePermissions';
+import { useRequestScheduler } from '../hooks/useRequestScheduler';
+import { useSessionRecorder } from '../hooks/useSessionRecorder';
+import { useOutbox } from '../outbox/OutboxContext';
+import type { LaneOptions } from '../scheduling/RequestScheduler';
+import { fusionOptions, maxVideoImportBytes, smoothingOptions, vadOptions } from '../settings/settings';
+import { useEmotionClients, useSettings } from '../settings/SettingsContext';
+import { Modality, useModeResults } from '../state/ResultsContext';
+import { tempFiles, TempSession } from '../storage/tempFiles';
+import type { BatchProgress } from '../video/batchAnalysis';
+import { importVideo, VideoTooLargeError } from '../video/importVideo';
+import { analyzeSegment, AUDIO_CHUNK_S, FRAME_INTERVAL_S, SegmentResult, VideoSegment } from '../video/segments';
+import SummaryScreen from './SummaryScreen';
+
+// Frames are cheap to redo, so keep a couple queued and shed the oldest; for audio only the newest chunk matters
+const PLAYBACK_LANES: Record<Modality, LaneOptions> = {
+  image: { concurrency: 2, maxQueue: 2, policy: 'drop-oldest' },
+  audio: { concurrency: 1, maxQueue: 1, policy: 'coalesce' },
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+interface BatchControlsProps {
+  phase: BatchPhase;
+  progress: BatchProgress | null;
+  error: unknown;
+  onRun: () => void;
+  onCancel: () => void;
+}
+
+// "Analyze entire video" button with progress, ETA, cancel and resume
+function BatchControls({ phase, progress, error, onRun, onCancel }: BatchControlsProps): React.JSX.Element {
+  const running = phase === 'probing' || phase === 'running';
+  const fraction = progress && progress.total > 0 ? (progress.completed + progress.failed) / progress.total : 0;
+  const complete = phase === 'done' && !progress?.failed;
+  const label = complete
+    ? 'Analysis complete'
+    : phase === 'cancelled'
+      ? 'Resume analysis'
+      : phase === 'done'
+        ? `Retry ${progress?.failed} failed`
+        : 'Analyze entire video';
+
+  return (
+    <View style={styles.batch}>
+      {running ? (
+        <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onCancel}>
+          <Text style={styles.buttonText}>Cancel analysis</Text>
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity style={styles.button} onPress={onRun} disabled={complete}>
+          <Text style={styles.buttonText}>{label}</Text>
+        </TouchableOpacity>
+      )}
+      {phase === 'probing' && <Text style={styles.statusText}>Reading video duration...</Text>}
+      {progress && (
+        <>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressBar, { width: `${fraction * 100}%` }]} />
+          </View>
+          <Text style={styles.statusText}>
+            {progress.completed}/{progress.total} segments
+            {progress.failed ? `, ${progress.failed} failed` : ''}
+            {running && progress.etaMs !== null ? ` · about ${formatDuration(progress.etaMs)} left` : ''}
+          </Text>
+        </>
+      )}
+      {phase === 'failed' && <Text style={styles.errorText}>Analysis failed: {describeApiError(error)}</Text>}
+    </View>
+  );
+}
+
+interface VideoScreenProps {
+  // False while another mode or an overlay is on screen; playback pauses but the video and batch are kept
+  visible: boolean;
+}
+
+// Video file analysis mode
+function VideoScreen({ visible }: VideoScreenProps): React.JSX.Element {
+  const { settings } = useSettings();
+  const clients = useEmotionClients({ retry: true, streaming: true });
+  const permissionGate = usePermissionGate();
+  const outbox = useOutbox();
+  const results = useModeResults('video');
+  const { addTimed, setFaces, setSpeech, setStatus: setProcessingStatus, reset: resetResults } = results;
+  const vad = vadOptions(settings);
+  const videoRef = useRef<VideoRef>(null);
+  const [videoUri, setVideoUri] = useState<string | null>(null);
+  // Holds the picked video's local copy and the frames and chunks extracted from it
+  const [videoTemp, setVideoTemp] = useState<TempSession | null>(null);
+  // Percent of a content:// video copied so far, null when no copy is running
+  const [importPercent, setImportPercent] = useState<number | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const [lastFrameTime, setLastFrameTime] = useState(0);
+  const [lastAudioTime, setLastAudioTime] = useState(0);
+  const { scheduler, stats: queueStats, busy: isProcessing } = useRequestScheduler(PLAYBACK_LANES);
+  const recorder = useSessionRecorder('video');
+  const { sessions } = useHistory();
+  const recorded = sessions.find(item => item.id === recorder.current()?.id);
+  const [showSummary, setShowSummary] = useState(false);
+  const batch = useBatchAnalysis({
+    videoUri,
+    clients,
+    vad,
+    temp: videoTemp ?? undefined,
+    onResult: (segment, result) => recordSegment(segment, result),
+    onFailure: (segment, error) => console.error(`Batch segment ${segment.modality}@${segment.start} failed:`, error),
+  });
+  const batchRunning = batch.phase === 'probing' || batch.phase === 'running';
+
+  useEffect(() => {
+    if (!visible) {
+      videoRef.current?.pause();
+    }
+  }, [visible]);
+
+  // A newly picked video or unmounting removes the previous video's files
+  useEffect(
+    () => () => {
+      videoTemp?.dispose();
+    },
+    [videoTemp],
+  );
+  const [showRaw, setShowRaw] = useState(false);
+  const smoothedTimeline = useMemo(
+    () => smoothTimeline(results.timeline, smoothingOptions(settings)),
+    [results.timeline, settings],
+  );
+  const shownTimeline = showRaw ? results.timeline : smoothedTimeline;
+  const fusedTimeline = useMemo(() => fuseTimeline(shownTimeline, fusionOptions(settings)), [shownTimeline, settings]);
+  // Results under the playhead, or the last ones before it
+  const before = <T extends { start: number }>(items: T[]) =>
+    items.filter(item => item.start <= playbackTime).pop() ?? null;
+  const fusedNow = before(fusedTimeline);
+  const facesNow = before(results.faceTimeline);
+  const shownResults = {
+    ...results,
+    image: before(timelineFor(shownTimeline, 'image'))?.prediction ?? results.image,
+    audio: before(timelineFor(shownTimeline, 'audio'))?.prediction ?? results.audio,
+  };
+
+  // Frames without a face and silent audio only update the overlay and timeline; returns whether
+  // there was anything to classify
+  const recordSegment = (segment: VideoSegment, { prediction, faces, voice }: SegmentResult) => {
+    const timing = { start: segment.start, duration: segment.duration };
+    if (faces) {
+      setFaces(faces, timing);
+    }
+    if (voice) {
+      setSpeech(voice.speech, timing);
+    }
+    if (!prediction) {
+      return false;
+    }
+    addTimed({ ...segment, prediction });
+    recorder.record(segment.modality, prediction, timing);
+    return true;
+  };
+
+  // **Pick a video** from the PhotoPicker
+  const pickVideo = async () => {
+    try {
+      if (!(await permissionGate.ensure('video', 'select videos'))) {
+        return;
+      }
+
+      const [result] = await pick({
+        type: 'video/*',
+        allowMultiSelection: false,
+      });
+
+      if (result) {
+        const temp = tempFiles.create('video', { pinned: true });
+        // If PhotoPicker returns content://, copy to local path
+        let finalUri = result.uri;
+        if (finalUri.startsWith('content://')) {
+          setImportPercent(0);
+          finalUri = await importVideo(finalUri, temp, {
+            maxBytes: maxVideoImportBytes(settings),
+            size: result.size,
+            onProgress: fraction => setImportPercent(Math.floor(fraction * 100)),
+          })
+            .catch(async error => {
+              await temp.dispose();
+              throw error;
+            })
+            .finally(() => setImportPercent(null));
+        }
+
+        console.log('Picked video =>', finalUri);
+
+        scheduler.clear();
+        recorder.begin(result.name ?? 'Video');
+        resetResults();
+        setVideoUri(finalUri);
+        setVideoTemp(temp);
+        setProcessingStatus(`Video selected: ${result.name}`);
+        setLastFrameTime(0);
+        setLastAudioTime(0);
+        setDuration(0);
+        setPlaybackTime(0);
+      }
+    } catch (err) {
+      if (err instanceof VideoTooLargeError) {
+        Alert.alert('Video Too Large', `${err.message}. The limit can be raised under Settings.`);
+        return;
+      }
+      console.error('Error picking video:', err);
+      Alert.alert('Error', 'Failed to pick video.');
+    }
+  };
+
+  // Queue one segment for extraction and classification while the video plays
+  const analyzeDuringPlayback = (segment: VideoSegment) => {
+    if (!videoUri) return;
+    const uri = videoUri;
+    const what = segment.modality === 'image' ? 'Frame' : 'Audio chunk';
+    const skipped = segment.modality === 'image' ? 'skipped: no face' : 'skipped: silence';
+    scheduler.submit(segment.modality, () => analyzeSegment(uri, segment, clients, { vad, temp: videoTemp ?? undefined }), {
+      onResult: result => {
+        const classified = recordSegment(segment, result);
+        setProcessingStatus(`${what} at ${segment.start.toFixed(1)}s ${classified ? 'classified' : skipped}.`);
+      },
+      onError: error => {
+        const session = recorder.current();
+        if (isOfflineError(error) && session) {
+          outbox.enqueueSegment(session, uri, segment).then(
+            () => setProcessingStatus(`Offline: ${what.toLowerCase()} at ${segment.start.toFixed(1)}s will be sent later.`),
+            queueError => {
+              console.error(`Error queueing ${what.toLowerCase()}:`, queueError);
+              setProcessingStatus(`${what} at ${segment.start.toFixed(1)}s couldn't be queued while offline.`);
+            },
+          );
+          return;
+        }
+        console.error(`Error processing ${what.toLowerCase()}:`, error);
+        setProcessingStatus(`${what} classification failed: ${describeApiError(error)}`);
+      },
+    });
+  };
+
+  // Called every progress update from the Video player
+  const onVideoProgress = ({ currentTime }: { currentTime: number }) => {
+    console.log(`Video Progress => ${currentTime.toFixed(2)}s`);
+    setPlaybackTime(currentTime);
+
+    // Capture a frame every FRAME_INTERVAL_S; abs() so seeking backwards restarts the cadence
+    if (Math.abs(currentTime - lastFrameTime) >= FRAME_INTERVAL_S) {
+      analyzeDuringPlayback({ modality: 'image', start: currentTime, duration: FRAME_INTERVAL_S });
+      setLastFrameTime(currentTime);
+    }
+    // Extract an audio chunk every AUDIO_CHUNK_S
+    if (Math.abs(currentTime - lastAudioTime) >= AUDIO_CHUNK_S) {
+      analyzeDuringPlayback({ modality: 'audio', start: currentTime, duration: AUDIO_CHUNK_S });
+      setLastAudioTime(currentTime);
+    }
+  };
+
+  // Jump the player to a timeline segment
+  const seekTo = (time: number) => {
+    videoRef.current?.seek(time);
+    setPlaybackTime(time);
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <Text style={styles.title}>Video Analyzer</Text>
+      <TouchableOpacity style={styles.button} onPress={pickVideo} disabled={batchRunning || importPercent !== null}>
+        <Text style={styles.buttonText}>
+          {importPercent !== null ? `Importing... ${importPercent}%` : isProcessing ? 'Processing...' : 'Select Video'}
+        </Text>
+      </TouchableOpacity>
+
+      {videoUri && (
+        <View style={styles.video}>
+          <Video
+            ref={videoRef}
+            source={{ uri: videoUri }}
+            style={StyleSheet.absoluteFill}
+            controls
+            onProgress={batchRunning ? ({ currentTime }) => setPlaybackTime(currentTime) : onVideoProgress}
+            resizeMode="contain"
+            onLoad={(meta) => {
+              console.log('Video loaded, duration =>', meta.duration);
+              setDuration(meta.duration);
+            }}
+          />
+          <FaceOverlay frame={facesNow?.frame ?? null} fit="contain" threshold={settings.confidenceThreshold} />
+        </View>
+      )}
+
+      {videoUri && (
+        <BatchControls
+          phase={batch.phase}
+          progress={batch.progress}
+          error={batch.error}
+          onRun={batch.run}
+          onCancel={batch.cancel}
+        />
+      )}
+
+      {videoUri && settings.smoothingStrategy !== 'none' && (
+        <View style={styles.toggleRow}>
+          {[false, true].map(raw => (
+            <TouchableOpacity
+              key={String(raw)}
+              style={[styles.toggle, showRaw === raw && styles.toggleActive]}
+              onPress={() => setShowRaw(raw)}>
+              <Text style={[styles.toggleText, showRaw === raw && styles.toggleTextActive]}>
+                {raw ? 'Raw' : 'Smoothed'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+      {videoUri && (
+        <EmotionTimeline
+          timeline={shownTimeline}
+          duration={duration}
+          currentTime={playbackTime}
+          fused={fusedTimeline}
+          silences={results.silences}
+          threshold={settings.confidenceThreshold}
+          onSeek={seekTo}
+        />
+      )}
+      {recorded && (
+        <TouchableOpacity style={styles.summaryButton} onPress={() => setShowSummary(true)}>
+          <Text style={styles.summaryText}>View summary</Text>
+        </TouchableOpacity>
+      )}
+
+      {results.status ? (
+        <Text style={styles.statusText}>{results.status}</Text>
+      ) : null}
+
+      <ResultsPanel results={shownResults}>
+        <FusedResult fused={fusedNow?.fused ?? null} threshold={settings.confidenceThreshold} />
+      </ResultsPanel>
+
+      {settings.showDebugInfo && <SchedulerDebugPanel stats={queueStats} />}
+
+      <Modal visible={permissionGate.blocked !== null} animationType="slide" onRequestClose={permissionGate.dismiss}>
+        {permissionGate.blocked && (
+          <PermissionRationale
+            capabilities={[permissionGate.blocked]}
+            states={{ [permissionGate.blocked]: 'blocked' }}
+            onRequest={permissionGate.dismiss}
+            onClose={permissionGate.dismiss}
+          />
+        )}
+      </Modal>
+      <Modal visible={showSummary && !!recorded} animationType="slide" onRequestClose={() => setShowSummary(false)}>
+        {recorded && (
+          <SummaryScreen title={recorded.sourceName} sessions={[recorded]} onClose={() => setShowSummary(false)} />
+        )}
+      </Modal>
+    </ScrollView>
+  );
+}
+
+export default VideoScreen;
+
+const styles = StyleSheet.create({
+  container: { flexGrow: 1, backgroundColor: '#f5f5f5', paddingTop: 20, paddingBottom: 20, alignItems: 'center' },
+  title: { fontSize: 24, marginBottom: 20, fontWeight: 'bold', color: '#333' },
+  button: { backgroundColor: '#2196F3', padding: 12, borderRadius: 8, marginVertical: 10 },
+  buttonText: { color: 'white', fontSize: 16, fontWeight: 'bold' },
+  video: { width: '90%', height: 220, backgroundColor: '#000', marginVertical: 20 },
+  statusText: { fontSize: 14, color: '#555', marginBottom: 10, textAlign: 'center' },
+  batch: { width: '90%', alignItems: 'center', marginBottom: 10 },
+  cancelButton: { backgroundColor: '#E53935' },
+  progressTrack: { width: '100%', height: 8, backgroundColor: '#ddd', borderRadius: 4, overflow: 'hidden', marginVertical: 6 },
+  progressBar: { height: '100%', backgroundColor: '#2196F3' },
+  errorText: { fontSize: 14, color: '#C62828', textAlign: 'center' },
+  toggleRow: { flexDirection: 'row', width: '90%', marginBottom: 6 },
+  toggle: { borderWidth: 1, borderColor: '#2196F3', borderRadius: 14, paddingHorizontal: 12, paddingVertical: 4, marginRight: 6 },
+  toggleActive: { backgroundColor: '#2196F3' },
+  toggleText: { color: '#2196F3', fontSize: 13 },
+  toggleTextActive: { color: 'white', fontWeight: 'bold' },
+  summaryButton: { borderWidth: 1, borderColor: '#2196F3', borderRadius: 8, paddingHorizontal: 14, paddingVertical: 8, marginTop: 10 },
+  summaryText: { color: '#2196F3', fontWeight: 'bold' },
+});
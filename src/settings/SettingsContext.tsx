@@ -0,0 +1,143 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { createEmotionClient, EmotionClient } from '../api/emotionClient';
+import { retryingClient } from '../api/retry';
+import { createSocketEmotionClient, EmotionSocket, fallbackClient, streamUrl } from '../api/socketClient';
+import { readJsonFile, writeJsonFile } from '../storage/jsonFile';
+import {
+  activeProfile,
+  AppSettings,
+  BackendProfile,
+  DEFAULT_SETTINGS,
+  normalizeSettings,
+  SETTINGS_FILE,
+} from './settings';
+
+interface SettingsContextValue {
+  settings: AppSettings;
+  loaded: boolean;
+  profile: BackendProfile;
+  updateSettings: (patch: Partial<AppSettings>) => void;
+  updateProfile: (id: string, patch: Partial<Omit<BackendProfile, 'id'>>) => void;
+  addProfile: (name: string) => void;
+  removeProfile: (id: string) => void;
+}
+
+const SettingsContext = createContext<SettingsContextValue | null>(null);
+
+export function SettingsProvider({ children }: { children: React.ReactNode }): React.JSX.Element {
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    readJsonFile<Partial<AppSettings>>(SETTINGS_FILE).then(stored => {
+      if (!cancelled) {
+        setSettings(normalizeSettings(stored));
+        setLoaded(true);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Every change is written straight through; settings are tiny
+  const commit = useCallback((update: (current: AppSettings) => AppSettings) => {
+    setSettings(current => {
+      const next = update(current);
+      writeJsonFile(SETTINGS_FILE, next).catch(error =>
+        console.error('Failed to save settings:', error),
+      );
+      return next;
+    });
+  }, []);
+
+  const value = useMemo<SettingsContextValue>(
+    () => ({
+      settings,
+      loaded,
+      profile: activeProfile(settings),
+      updateSettings: patch => commit(current => ({ ...current, ...patch })),
+      updateProfile: (id, patch) =>
+        commit(current => ({
+          ...current,
+          profiles: current.profiles.map(profile => (profile.id === id ? { ...profile, ...patch } : profile)),
+        })),
+      addProfile: name =>
+        commit(current => {
+          const base = activeProfile(current);
+          const id = `profile-${Date.now()}`;
+          return {
+            ...current,
+            activeProfileId: id,
+            profiles: [...current.profiles, { ...base, id, name }],
+          };
+        }),
+      removeProfile: id =>
+        commit(current => {
+          if (current.profiles.length <= 1) {
+            return current;
+          }
+          const profiles = current.profiles.filter(profile => profile.id !== id);
+          return {
+            ...current,
+            profiles,
+            activeProfileId: current.activeProfileId === id ? profiles[0].id : current.activeProfileId,
+          };
+        }),
+    }),
+    [settings, loaded, commit],
+  );
+
+  return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>;
+}
+
+export function useSettings(): SettingsContextValue {
+  const context = useContext(SettingsContext);
+  if (!context) {
+    throw new Error('useSettings must be used inside a SettingsProvider');
+  }
+  return context;
+}
+
+// Clients for the active profile; image and audio may point at different services.
+// `retry` adds backoff on transient failures, which live mode skips since its results go stale.
+// `streaming` lets the screens that send a steady flow of requests use the WebSocket transport
+// when it is selected; each backend gets one socket, closed when the clients change or unmount.
+export function useEmotionClients({
+  retry = false,
+  streaming = false,
+}: { retry?: boolean; streaming?: boolean } = {}): { image: EmotionClient; audio: EmotionClient } {
+  const { profile, settings } = useSettings();
+  const { imageBaseUrl, audioBaseUrl } = profile;
+  const timeoutMs = settings.requestTimeoutMs;
+  const useSocket = streaming && settings.streamingTransport === 'websocket';
+  const { clients, sockets } = useMemo(() => {
+    const byUrl = new Map<string, EmotionSocket>();
+    const connect = (baseUrl: string) => {
+      const http = createEmotionClient(baseUrl, { timeoutMs });
+      if (!useSocket) {
+        return http;
+      }
+      const url = streamUrl(baseUrl);
+      const socket = byUrl.get(url) ?? new EmotionSocket(url, timeoutMs);
+      byUrl.set(url, socket);
+      return fallbackClient(createSocketEmotionClient(socket), http);
+    };
+    const image = connect(imageBaseUrl);
+    const audio = connect(audioBaseUrl);
+    return {
+      clients: retry ? { image: retryingClient(image), audio: retryingClient(audio) } : { image, audio },
+      sockets: Array.from(byUrl.values()),
+    };
+  }, [imageBaseUrl, audioBaseUrl, timeoutMs, retry, useSocket]);
+
+  useEffect(
+    () => () => {
+      sockets.forEach(socket => socket.close());
+    },
+    [sockets],
+  );
+
+  return clients;
+}
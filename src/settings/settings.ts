@@ -0,0 +1,177 @@
+import { Platform } from 'react-native';
+import { DEFAULT_TIMEOUT_MS } from '../api/emotionClient';
+import { DEFAULT_CONFIDENCE_THRESHOLD } from '../analysis/confidence';
+import { DEFAULT_FUSION_OPTIONS, FusionOptions, FusionStrategy } from '../analysis/fusion';
+import { DEFAULT_SMOOTHING_OPTIONS, SmoothingOptions, SmoothingStrategy } from '../analysis/smoothing';
+import { DEFAULT_VAD_OPTIONS, VadOptions } from '../audio/vad';
+import { DEFAULT_MAX_VIDEO_IMPORT_MB, MAX_VIDEO_IMPORT_MB } from '../video/importVideo';
+
+// A named pair of backend base URLs; image and audio models may run as separate services
+export interface BackendProfile {
+  id: string;
+  name: string;
+  imageBaseUrl: string;
+  audioBaseUrl: string;
+}
+
+export type StreamingTransport = 'http' | 'websocket';
+
+export interface AppSettings {
+  activeProfileId: string;
+  profiles: BackendProfile[];
+  confidenceThreshold: number;
+  // How often Live mode snapshots the preview for classification
+  liveFrameIntervalMs: number;
+  // Length of each microphone window sent for classification, and how far apart windows start
+  liveAudioWindowMs: number;
+  liveAudioHopMs: number;
+  // Picked videos larger than this are refused rather than copied
+  maxVideoImportMb: number;
+  // Give up on a backend request after this long
+  requestTimeoutMs: number;
+  // How live and video modes reach the backend; the socket falls back to HTTP when it can't connect
+  streamingTransport: StreamingTransport;
+  // How face and voice results combine into the overall emotion
+  fusionStrategy: FusionStrategy;
+  fusionFaceWeight: number;
+  // How streaming face and voice labels are steadied; see analysis/smoothing
+  smoothingStrategy: SmoothingStrategy;
+  smoothingWindow: number;
+  smoothingAlpha: number;
+  smoothingHysteresis: number;
+  // Skip audio windows with no voice in them; see audio/vad
+  vadEnabled: boolean;
+  vadEnergyThresholdDb: number;
+  vadMaxZeroCrossingRate: number;
+  vadMinSpeechRatio: number;
+  // Show request queue counters and other diagnostics on the analysis screens
+  showDebugInfo: boolean;
+}
+
+// For Android emulators 10.0.2.2 is the host machine's localhost
+const EMULATOR_HOST = Platform.OS === 'android' ? 'http://10.0.2.2' : 'http://127.0.0.1';
+
+export const DEFAULT_PROFILES: BackendProfile[] = [
+  {
+    id: 'emulator',
+    name: 'Emulator',
+    imageBaseUrl: `${EMULATOR_HOST}:8000`,
+    audioBaseUrl: `${EMULATOR_HOST}:8000`,
+  },
+  {
+    id: 'lan',
+    name: 'LAN',
+    imageBaseUrl: 'http://192.168.1.100:8000',
+    audioBaseUrl: 'http://192.168.1.100:8000',
+  },
+  {
+    id: 'staging',
+    name: 'Staging',
+    imageBaseUrl: 'https://staging.example.com',
+    audioBaseUrl: 'https://staging.example.com',
+  },
+];
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  activeProfileId: 'emulator',
+  profiles: DEFAULT_PROFILES,
+  confidenceThreshold: DEFAULT_CONFIDENCE_THRESHOLD,
+  liveFrameIntervalMs: 1000,
+  liveAudioWindowMs: 2000,
+  liveAudioHopMs: 1000,
+  maxVideoImportMb: DEFAULT_MAX_VIDEO_IMPORT_MB,
+  requestTimeoutMs: DEFAULT_TIMEOUT_MS,
+  streamingTransport: 'http',
+  fusionStrategy: DEFAULT_FUSION_OPTIONS.strategy,
+  fusionFaceWeight: DEFAULT_FUSION_OPTIONS.faceWeight,
+  smoothingStrategy: DEFAULT_SMOOTHING_OPTIONS.strategy,
+  smoothingWindow: DEFAULT_SMOOTHING_OPTIONS.window,
+  smoothingAlpha: DEFAULT_SMOOTHING_OPTIONS.alpha,
+  smoothingHysteresis: DEFAULT_SMOOTHING_OPTIONS.hysteresisCount,
+  vadEnabled: true,
+  vadEnergyThresholdDb: DEFAULT_VAD_OPTIONS.energyThresholdDb,
+  vadMaxZeroCrossingRate: DEFAULT_VAD_OPTIONS.maxZeroCrossingRate,
+  vadMinSpeechRatio: DEFAULT_VAD_OPTIONS.minSpeechRatio,
+  showDebugInfo: false,
+};
+
+export const SETTINGS_FILE = 'settings.json';
+
+export const activeProfile = (settings: AppSettings): BackendProfile =>
+  settings.profiles.find(profile => profile.id === settings.activeProfileId) ?? settings.profiles[0];
+
+const SMOOTHING_STRATEGIES: SmoothingStrategy[] = ['none', 'majority', 'ema', 'hysteresis'];
+
+const numberOr = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+// Accept whatever is on disk but fall back to defaults for missing or mistyped fields
+export const normalizeSettings = (stored: Partial<AppSettings> | null): AppSettings => {
+  if (!stored) {
+    return DEFAULT_SETTINGS;
+  }
+  const profiles = Array.isArray(stored.profiles)
+    ? stored.profiles.filter(
+        profile =>
+          typeof profile?.id === 'string' &&
+          typeof profile.imageBaseUrl === 'string' &&
+          typeof profile.audioBaseUrl === 'string',
+      )
+    : [];
+  const merged = profiles.length > 0 ? profiles : DEFAULT_PROFILES;
+  return {
+    ...DEFAULT_SETTINGS,
+    ...stored,
+    profiles: merged,
+    activeProfileId: merged.some(profile => profile.id === stored.activeProfileId)
+      ? (stored.activeProfileId as string)
+      : merged[0].id,
+    confidenceThreshold: numberOr(stored.confidenceThreshold, DEFAULT_SETTINGS.confidenceThreshold),
+    liveFrameIntervalMs: numberOr(stored.liveFrameIntervalMs, DEFAULT_SETTINGS.liveFrameIntervalMs),
+    liveAudioWindowMs: numberOr(stored.liveAudioWindowMs, DEFAULT_SETTINGS.liveAudioWindowMs),
+    liveAudioHopMs: numberOr(stored.liveAudioHopMs, DEFAULT_SETTINGS.liveAudioHopMs),
+    maxVideoImportMb: Math.min(MAX_VIDEO_IMPORT_MB, numberOr(stored.maxVideoImportMb, DEFAULT_SETTINGS.maxVideoImportMb)),
+    requestTimeoutMs: numberOr(stored.requestTimeoutMs, DEFAULT_SETTINGS.requestTimeoutMs),
+    streamingTransport: stored.streamingTransport === 'websocket' ? 'websocket' : 'http',
+    fusionStrategy: stored.fusionStrategy === 'max-confidence' ? 'max-confidence' : 'weighted-average',
+    fusionFaceWeight: Math.min(1, Math.max(0, numberOr(stored.fusionFaceWeight, DEFAULT_SETTINGS.fusionFaceWeight))),
+    smoothingStrategy: SMOOTHING_STRATEGIES.includes(stored.smoothingStrategy as SmoothingStrategy)
+      ? (stored.smoothingStrategy as SmoothingStrategy)
+      : DEFAULT_SETTINGS.smoothingStrategy,
+    smoothingWindow: numberOr(stored.smoothingWindow, DEFAULT_SETTINGS.smoothingWindow),
+    smoothingAlpha: numberOr(stored.smoothingAlpha, DEFAULT_SETTINGS.smoothingAlpha),
+    smoothingHysteresis: numberOr(stored.smoothingHysteresis, DEFAULT_SETTINGS.smoothingHysteresis),
+    vadEnabled: stored.vadEnabled !== false,
+    vadEnergyThresholdDb: numberOr(stored.vadEnergyThresholdDb, DEFAULT_SETTINGS.vadEnergyThresholdDb),
+    vadMaxZeroCrossingRate: numberOr(stored.vadMaxZeroCrossingRate, DEFAULT_SETTINGS.vadMaxZeroCrossingRate),
+    vadMinSpeechRatio: numberOr(stored.vadMinSpeechRatio, DEFAULT_SETTINGS.vadMinSpeechRatio),
+    showDebugInfo: stored.showDebugInfo === true,
+  };
+};
+
+export const fusionOptions = (settings: AppSettings): FusionOptions => ({
+  ...DEFAULT_FUSION_OPTIONS,
+  strategy: settings.fusionStrategy,
+  faceWeight: settings.fusionFaceWeight,
+});
+
+export const maxVideoImportBytes = (settings: AppSettings) => settings.maxVideoImportMb * 1024 * 1024;
+
+export const isValidBaseUrl = (url: string) => /^https?:\/\/[^\s/]+/.test(url.trim());
+
+export const smoothingOptions = (settings: AppSettings): SmoothingOptions => ({
+  strategy: settings.smoothingStrategy,
+  window: settings.smoothingWindow,
+  alpha: settings.smoothingAlpha,
+  hysteresisCount: settings.smoothingHysteresis,
+});
+
+// Null when voice activity detection is off and every audio window should be sent
+export const vadOptions = (settings: AppSettings): VadOptions | null =>
+  settings.vadEnabled
+    ? {
+        energyThresholdDb: settings.vadEnergyThresholdDb,
+        maxZeroCrossingRate: settings.vadMaxZeroCrossingRate,
+        minSpeechRatio: settings.vadMinSpeechRatio,
+      }
+    : null;
@@ -0,0 +1,140 @@
+import React, { createContext, useContext, useMemo, useReducer } from 'react';
+import type { EmotionPrediction } from '../api/emotionClient';
+import { insertTimed, TimedPrediction } from '../analysis/timeline';
+import { FaceFrame, insertFaceFrame, TimedFaceFrame } from '../faces/faceBoxes';
+
+export type AnalysisMode = 'upload' | 'video' | 'live';
+export type Modality = 'image' | 'audio';
+
+export interface ModeResults {
+  image: EmotionPrediction | null;
+  audio: EmotionPrediction | null;
+  status: string;
+  // Every result with its media timestamp; only modes with a time axis fill this
+  timeline: TimedPrediction[];
+  // Faces in the last analysed frame; null until a frame has been analysed
+  faces: FaceFrame | null;
+  // Every analysed frame's faces, for modes with a time axis
+  faceTimeline: TimedFaceFrame[];
+  // Whether the last audio window checked for voice had any; null until one is checked
+  speech: boolean | null;
+  // Media spans whose audio was silent and so never classified
+  silences: MediaSpan[];
+}
+
+export interface MediaSpan {
+  start: number;
+  duration: number;
+}
+
+type ResultsState = Record<AnalysisMode, ModeResults>;
+
+type ResultsAction =
+  | { type: 'prediction'; mode: AnalysisMode; modality: Modality; prediction: EmotionPrediction }
+  | { type: 'timed'; mode: AnalysisMode; entry: TimedPrediction }
+  | { type: 'faces'; mode: AnalysisMode; frame: FaceFrame; timing?: MediaSpan }
+  | { type: 'voice'; mode: AnalysisMode; speech: boolean; timing?: MediaSpan }
+  | { type: 'status'; mode: AnalysisMode; status: string }
+  | { type: 'reset'; mode: AnalysisMode };
+
+const EMPTY_RESULTS: ModeResults = {
+  image: null,
+  audio: null,
+  status: '',
+  timeline: [],
+  faces: null,
+  faceTimeline: [],
+  speech: null,
+  silences: [],
+};
+
+const INITIAL_STATE: ResultsState = {
+  upload: EMPTY_RESULTS,
+  video: EMPTY_RESULTS,
+  live: EMPTY_RESULTS,
+};
+
+function resultsReducer(state: ResultsState, action: ResultsAction): ResultsState {
+  switch (action.type) {
+    case 'prediction':
+      return { ...state, [action.mode]: { ...state[action.mode], [action.modality]: action.prediction } };
+    case 'timed': {
+      const current = state[action.mode];
+      return {
+        ...state,
+        [action.mode]: {
+          ...current,
+          [action.entry.modality]: action.entry.prediction,
+          timeline: insertTimed(current.timeline, action.entry),
+        },
+      };
+    }
+    case 'faces': {
+      const current = state[action.mode];
+      return {
+        ...state,
+        [action.mode]: {
+          ...current,
+          faces: action.frame,
+          faceTimeline: action.timing
+            ? insertFaceFrame(current.faceTimeline, { ...action.timing, frame: action.frame })
+            : current.faceTimeline,
+        },
+      };
+    }
+    case 'voice': {
+      const current = state[action.mode];
+      const { timing } = action;
+      const others = timing ? current.silences.filter(span => span.start !== timing.start) : current.silences;
+      return {
+        ...state,
+        [action.mode]: {
+          ...current,
+          speech: action.speech,
+          silences:
+            timing && !action.speech ? [...others, timing].sort((a, b) => a.start - b.start) : others,
+        },
+      };
+    }
+    case 'status':
+      return { ...state, [action.mode]: { ...state[action.mode], status: action.status } };
+    case 'reset':
+      return { ...state, [action.mode]: EMPTY_RESULTS };
+  }
+}
+
+interface ResultsContextValue {
+  results: ResultsState;
+  dispatch: React.Dispatch<ResultsAction>;
+}
+
+const ResultsContext = createContext<ResultsContextValue | null>(null);
+
+// Latest results per mode, kept here so switching modes doesn't throw them away
+export function ResultsProvider({ children }: { children: React.ReactNode }): React.JSX.Element {
+  const [results, dispatch] = useReducer(resultsReducer, INITIAL_STATE);
+  const value = useMemo(() => ({ results, dispatch }), [results]);
+  return <ResultsContext.Provider value={value}>{children}</ResultsContext.Provider>;
+}
+
+// Results and setters scoped to a single mode
+export function useModeResults(mode: AnalysisMode) {
+  const context = useContext(ResultsContext);
+  if (!context) {
+    throw new Error('useModeResults must be used inside a ResultsProvider');
+  }
+  const { results, dispatch } = context;
+  return useMemo(
+    () => ({
+      ...results[mode],
+      setPrediction: (modality: Modality, prediction: EmotionPrediction) =>
+        dispatch({ type: 'prediction', mode, modality, prediction }),
+      addTimed: (entry: TimedPrediction) => dispatch({ type: 'timed', mode, entry }),
+      setFaces: (frame: FaceFrame, timing?: MediaSpan) => dispatch({ type: 'faces', mode, frame, timing }),
+      setSpeech: (speech: boolean, timing?: MediaSpan) => dispatch({ type: 'voice', mode, speech, timing }),
+      setStatus: (status: string) => dispatch({ type: 'status', mode, status }),
+      reset: () => dispatch({ type: 'reset', mode }),
+    }),
+    [results, dispatch, mode],
+  );
+}
@@ -0,0 +1,21 @@
+import { FileSystem, Dirs } from 'react-native-file-access';
+
+// Small JSON documents kept under the app's document directory
+export const documentPath = (name: string) => `${Dirs.DocumentDir}/${name}`;
+
+export async function readJsonFile<T>(name: string): Promise<T | null> {
+  const path = documentPath(name);
+  try {
+    if (!(await FileSystem.exists(path))) {
+      return null;
+    }
+    return JSON.parse(await FileSystem.readFile(path, 'utf8')) as T;
+  } catch (error) {
+    console.error(`Failed to read ${name}:`, error);
+    return null;
+  }
+}
+
+export async function writeJsonFile(name: string, value: unknown): Promise<void> {
+  await FileSystem.writeFile(documentPath(name), JSON.stringify(value), 'utf8');
+}
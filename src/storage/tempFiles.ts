@@ -0,0 +1,160 @@
+import { Dirs, FileStat, FileSystem } from 'react-native-file-access';
+
+// Scratch files (extracted frames and audio, face crops, converted uploads, copied videos) live in one
+// directory per session under here, so everything a piece of work wrote goes away together
+export const TEMP_ROOT = `${Dirs.CacheDir}/temp`;
+
+// Past this, idle sessions are removed, least recently used first. Pinned sessions (a loaded video) don't
+// count towards it; the video import limit bounds those.
+export const TEMP_SIZE_CAP_BYTES = 512 * 1024 * 1024;
+
+// Fixed locations used before temp sessions, cleared by the startup sweep
+const LEGACY_NAMES = ['video_processing', 'face_crops', 'upload_conversions', 'input_video_temp.mp4'];
+const LEGACY_PATTERN = /^live_audio_\d+\.wav$/;
+
+export interface TempSession {
+  readonly id: string;
+  readonly dir: string;
+  // A new unique path in the session's directory, created on first use. The file counts as in use, and
+  // keeps the session from being evicted, until it is released or the session disposed.
+  file(name: string): Promise<string>;
+  // Marks a path from `file` as no longer in use. The file stays until dispose, but once nothing in the
+  // session is in use the session can be evicted to make room.
+  release(path: string): void;
+  // Runs `work` with a new path and removes the file afterwards, whether it succeeded, failed or was cancelled
+  withFile<T>(name: string, work: (path: string) => Promise<T>): Promise<T>;
+  // Removes the directory and everything in it; the session can't be used afterwards
+  dispose(): Promise<void>;
+}
+
+export interface TempSessionOptions {
+  // Never evicted by the size cap, for files that must outlive any one request (a loaded video)
+  pinned?: boolean;
+}
+
+interface SessionEntry {
+  session: TempSession;
+  pinned: boolean;
+  lastUsed: number;
+  // Files handed out by `withFile` and not yet removed
+  busy: number;
+  // Paths handed out by `file` and not released
+  held: Set<string>;
+}
+
+const ensureDir = async (dir: string) => {
+  if (!(await FileSystem.exists(dir))) {
+    await FileSystem.mkdir(dir);
+  }
+};
+
+// Hands out temp sessions and keeps their total size under a cap
+export class TempStorage {
+  private readonly sessions = new Map<string, SessionEntry>();
+  private counter = 0;
+
+  constructor(readonly root: string, private readonly capBytes: number) {}
+
+  create(label: string, { pinned = false }: TempSessionOptions = {}): TempSession {
+    const id = `${label}-${Date.now()}-${this.counter++}`;
+    const dir = `${this.root}/${id}`;
+    let ready: Promise<void> | null = null;
+    let disposed = false;
+    let files = 0;
+
+    const newPath = async (name: string) => {
+      if (disposed) {
+        throw new Error(`Temp session ${id} was already cleaned up`);
+      }
+      entry.lastUsed = Date.now();
+      ready ??= ensureDir(this.root).then(() => ensureDir(dir));
+      await ready;
+      return `${dir}/${files++}_${name}`;
+    };
+
+    const session: TempSession = {
+      id,
+      dir,
+      file: async name => {
+        const path = await newPath(name);
+        entry.held.add(path);
+        return path;
+      },
+      release: path => {
+        entry.held.delete(path);
+        entry.lastUsed = Date.now();
+      },
+      withFile: async (name, work) => {
+        entry.busy += 1;
+        let path: string | null = null;
+        try {
+          path = await newPath(name);
+          return await work(path);
+        } finally {
+          entry.busy -= 1;
+          if (path) {
+            await FileSystem.unlink(path).catch(() => {});
+          }
+        }
+      },
+      dispose: async () => {
+        if (disposed) {
+          return;
+        }
+        disposed = true;
+        this.sessions.delete(id);
+        await FileSystem.unlink(dir).catch(() => {});
+      },
+    };
+    const entry: SessionEntry = { session, pinned, lastUsed: Date.now(), busy: 0, held: new Set() };
+    this.sessions.set(id, entry);
+    this.enforceCap().catch(error => console.log('Temp size check failed:', error));
+    return session;
+  }
+
+  // Removes idle, unpinned sessions, least recently used first, until the unpinned sessions' files fit
+  // under the cap. A session is idle when no `withFile` work is running and every path it handed out with
+  // `file` was released; files in use count towards the total but are never removed.
+  async enforceCap(): Promise<void> {
+    const unpinned = Array.from(this.sessions.values()).filter(entry => !entry.pinned);
+    const measured = await Promise.all(
+      unpinned.map(async entry => {
+        const files = await FileSystem.statDir(entry.session.dir).catch((): FileStat[] => []);
+        return { entry, bytes: files.reduce((total, file) => total + file.size, 0) };
+      }),
+    );
+    let total = measured.reduce((sum, item) => sum + item.bytes, 0);
+    const evictable = measured
+      .filter(({ entry }) => entry.busy === 0 && entry.held.size === 0)
+      .sort((a, b) => a.entry.lastUsed - b.entry.lastUsed);
+    for (const { entry, bytes } of evictable) {
+      if (total <= this.capBytes) {
+        break;
+      }
+      console.log(`Evicting temp session ${entry.session.id} (${Math.round(bytes / 1024)} KB)`);
+      await entry.session.dispose();
+      total -= bytes;
+    }
+  }
+
+  // Deletes every directory under the root that no live session owns, i.e. leftovers from earlier runs
+  async sweep(): Promise<number> {
+    const names = await FileSystem.ls(this.root).catch((): string[] => []);
+    const stale = names.filter(name => !this.sessions.has(name));
+    await Promise.all(stale.map(name => FileSystem.unlink(`${this.root}/${name}`).catch(() => {})));
+    return stale.length;
+  }
+}
+
+export const tempFiles = new TempStorage(TEMP_ROOT, TEMP_SIZE_CAP_BYTES);
+
+// Run once at startup: clears temp sessions left by a crash or kill, and files from the old fixed paths
+export async function sweepTempFiles(): Promise<void> {
+  const swept = await tempFiles.sweep();
+  const cached = await FileSystem.ls(Dirs.CacheDir).catch((): string[] => []);
+  const legacy = cached.filter(name => LEGACY_NAMES.includes(name) || LEGACY_PATTERN.test(name));
+  await Promise.all(legacy.map(name => FileSystem.unlink(`${Dirs.CacheDir}/${name}`).catch(() => {})));
+  if (swept + legacy.length > 0) {
+    console.log(`Removed ${swept + legacy.length} leftover temp files`);
+  }
+}
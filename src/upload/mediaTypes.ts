@@ -0,0 +1,54 @@
+import type { Modality } from '../state/ResultsContext';
+
+const EXTENSION_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  wav: 'audio/wav',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg',
+  opus: 'audio/opus',
+  flac: 'audio/flac',
+  amr: 'audio/amr',
+  '3gp': 'audio/3gpp',
+};
+
+const GENERIC_TYPES = ['application/octet-stream', 'binary/octet-stream'];
+
+// What the backend decodes as-is; anything else is converted on the device first
+const BACKEND_TYPES: Record<Modality, string[]> = {
+  image: ['image/jpeg', 'image/png'],
+  audio: ['audio/wav', 'audio/x-wav', 'audio/wave', 'audio/vnd.wave'],
+};
+
+// Images larger than this on either side, or heavier than MAX_IMAGE_BYTES, are re-encoded smaller
+export const MAX_IMAGE_DIMENSION = 1280;
+export const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+
+const extensionOf = (name: string) => name.match(/\.([^./]+)$/)?.[1].toLowerCase();
+
+// The picker's MIME type when it names one, else a guess from the file extension
+export const resolveMediaType = (name: string, reportedType: string | null | undefined): string => {
+  const reported = reportedType?.toLowerCase();
+  if (reported && !GENERIC_TYPES.includes(reported)) {
+    return reported;
+  }
+  const extension = extensionOf(name);
+  return (extension && EXTENSION_TYPES[extension]) || 'application/octet-stream';
+};
+
+export const backendAccepts = (modality: Modality, type: string) => BACKEND_TYPES[modality].includes(type);
+
+export const needsDownscale = (size: { width: number; height: number } | null, bytes: number | null) =>
+  (size !== null && Math.max(size.width, size.height) > MAX_IMAGE_DIMENSION) ||
+  (bytes !== null && bytes > MAX_IMAGE_BYTES);
+
+// Same base name with the extension of the converted format
+export const withExtension = (name: string, extension: string) => `${name.replace(/\.[^./]+$/, '')}.${extension}`;
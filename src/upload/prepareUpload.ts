@@ -0,0 +1,66 @@
+import type { UploadFile } from '../api/emotionClient';
+import { tempFiles } from '../storage/tempFiles';
+import { convertAudioToWav, convertImageToJpeg, ffmpegInput, probeImageSize } from '../video/ffmpeg';
+import {
+  backendAccepts,
+  MAX_IMAGE_DIMENSION,
+  needsDownscale,
+  resolveMediaType,
+  withExtension,
+} from './mediaTypes';
+import type { UploadJob } from './uploadJobs';
+
+export interface PreparedUpload {
+  file: UploadFile;
+  // True when the file was re-encoded on the device
+  converted: boolean;
+  // Removes any converted copy; call once the upload has finished
+  cleanup: () => Promise<void>;
+}
+
+const convert = async (
+  job: UploadJob,
+  extension: string,
+  type: string,
+  run: (input: string, output: string, signal?: AbortSignal) => Promise<void>,
+  signal?: AbortSignal,
+): Promise<PreparedUpload> => {
+  const temp = tempFiles.create('upload');
+  const name = withExtension(job.name, extension);
+  try {
+    const outputPath = await temp.file(name);
+    await run(await ffmpegInput(job.uri), outputPath, signal);
+    return { file: { uri: `file://${outputPath}`, type, name }, converted: true, cleanup: () => temp.dispose() };
+  } catch (error) {
+    // A failed or cancelled conversion may leave a partial file behind
+    await temp.dispose();
+    throw error;
+  }
+};
+
+// The picked file with its real name and type, converted first if the backend can't decode it. Aborting
+// `signal` stops a conversion in progress.
+export async function prepareUpload(job: UploadJob, signal?: AbortSignal): Promise<PreparedUpload> {
+  const type = resolveMediaType(job.name, job.type);
+
+  if (job.modality === 'audio') {
+    if (backendAccepts('audio', type)) {
+      return { file: { uri: job.uri, type, name: job.name }, converted: false, cleanup: async () => {} };
+    }
+    return convert(job, 'wav', 'audio/wav', convertAudioToWav, signal);
+  }
+
+  if (backendAccepts('image', type)) {
+    const size = await probeImageSize(await ffmpegInput(job.uri)).catch(() => null);
+    if (!needsDownscale(size, job.size)) {
+      return { file: { uri: job.uri, type, name: job.name }, converted: false, cleanup: async () => {} };
+    }
+  }
+  return convert(
+    job,
+    'jpg',
+    'image/jpeg',
+    (input, output, abort) => convertImageToJpeg(input, output, MAX_IMAGE_DIMENSION, abort),
+    signal,
+  );
+}
@@ -0,0 +1,65 @@
+import type { EmotionPrediction } from '../api/emotionClient';
+import type { Modality } from '../state/ResultsContext';
+
+// 'deferred' jobs went to the offline outbox; their results land in history once sent
+export type UploadJobStatus = 'queued' | 'uploading' | 'done' | 'failed' | 'deferred';
+
+// One picked file waiting for, going through or finished with classification
+export interface UploadJob {
+  id: string;
+  modality: Modality;
+  name: string;
+  uri: string;
+  // MIME type and size as reported by the picker, when it knows them
+  type: string | null;
+  size: number | null;
+  status: UploadJobStatus;
+  prediction?: EmotionPrediction;
+  error?: string;
+}
+
+export type UploadJobAction =
+  | { type: 'enqueue'; jobs: UploadJob[] }
+  | { type: 'start'; id: string }
+  | { type: 'done'; id: string; prediction: EmotionPrediction }
+  | { type: 'failed'; id: string; error: string }
+  | { type: 'deferred'; id: string }
+  // Requeue one failed job, or all of them when `id` is omitted
+  | { type: 'retry'; id?: string }
+  | { type: 'clearFinished' };
+
+const update = (jobs: UploadJob[], id: string, patch: Partial<UploadJob>) =>
+  jobs.map(job => (job.id === id ? { ...job, ...patch } : job));
+
+export function uploadJobsReducer(jobs: UploadJob[], action: UploadJobAction): UploadJob[] {
+  switch (action.type) {
+    case 'enqueue':
+      return [...jobs, ...action.jobs];
+    case 'start':
+      return update(jobs, action.id, { status: 'uploading', error: undefined });
+    case 'done':
+      return update(jobs, action.id, { status: 'done', prediction: action.prediction });
+    case 'failed':
+      return update(jobs, action.id, { status: 'failed', error: action.error });
+    case 'deferred':
+      return update(jobs, action.id, { status: 'deferred' });
+    case 'retry':
+      return jobs.map(job =>
+        job.status === 'failed' && (action.id === undefined || job.id === action.id)
+          ? { ...job, status: 'queued', error: undefined }
+          : job,
+      );
+    case 'clearFinished':
+      return jobs.filter(job => job.status !== 'done' && job.status !== 'deferred');
+  }
+}
+
+// Jobs run one at a time in the order they were picked
+export const nextQueued = (jobs: UploadJob[]): UploadJob | undefined =>
+  jobs.some(job => job.status === 'uploading') ? undefined : jobs.find(job => job.status === 'queued');
+
+export const countJobs = (jobs: UploadJob[]): Record<UploadJobStatus, number> =>
+  jobs.reduce(
+    (counts, job) => ({ ...counts, [job.status]: counts[job.status] + 1 }),
+    { queued: 0, uploading: 0, done: 0, failed: 0, deferred: 0 },
+  );
@@ -0,0 +1,128 @@
+import type { VadOptions } from '../audio/vad';
+import type { TempSession } from '../storage/tempFiles';
+import {
+  analyzeSegment,
+  AUDIO_CHUNK_S,
+  FRAME_INTERVAL_S,
+  SegmentClients,
+  SegmentResult,
+  VideoSegment,
+} from './segments';
+
+export interface BatchPlanOptions {
+  frameIntervalS?: number;
+  audioChunkS?: number;
+  hasVideo?: boolean;
+  hasAudio?: boolean;
+}
+
+export interface BatchProgress {
+  completed: number;
+  failed: number;
+  total: number;
+  elapsedMs: number;
+  // Estimated time left, or null until at least one segment has finished
+  etaMs: number | null;
+}
+
+export type BatchOutcome = 'done' | 'cancelled';
+
+export interface BatchRunOptions {
+  videoUri: string;
+  segments: VideoSegment[];
+  // Keys of segments finished by an earlier run, skipped on resume
+  completedKeys: Set<string>;
+  clients: SegmentClients;
+  // Voice activity detection for audio chunks; null sends every chunk
+  vad?: VadOptions | null;
+  // Scratch space for extracted frames and chunks
+  temp?: TempSession;
+  isCancelled: () => boolean;
+  onResult: (segment: VideoSegment, result: SegmentResult) => void;
+  onFailure: (segment: VideoSegment, error: unknown) => void;
+  onProgress: (progress: BatchProgress) => void;
+}
+
+export const segmentKey = (segment: VideoSegment) => `${segment.modality}@${segment.start}`;
+
+// Every frame and audio chunk of the file in time order, interleaved so both timeline rows fill together
+export function planSegments(durationSeconds: number, options: BatchPlanOptions = {}): VideoSegment[] {
+  const { frameIntervalS = FRAME_INTERVAL_S, audioChunkS = AUDIO_CHUNK_S, hasVideo = true, hasAudio = true } =
+    options;
+  const segments: VideoSegment[] = [];
+  // Round to milliseconds so float steps don't drift (0.1 * 3 !== 0.3)
+  const at = (index: number, step: number) => Math.round(index * step * 1000) / 1000;
+
+  if (hasVideo) {
+    for (let i = 0; at(i, frameIntervalS) < durationSeconds; i++) {
+      segments.push({ modality: 'image', start: at(i, frameIntervalS), duration: frameIntervalS });
+    }
+  }
+  if (hasAudio) {
+    for (let i = 0; at(i, audioChunkS) < durationSeconds; i++) {
+      const start = at(i, audioChunkS);
+      segments.push({ modality: 'audio', start, duration: Math.min(audioChunkS, durationSeconds - start) });
+    }
+  }
+  return segments.sort((a, b) => a.start - b.start || (a.modality === 'image' ? -1 : 1));
+}
+
+// Walk the plan one segment at a time, independent of playback. Cancelling stops once the segment
+// in flight settles, without reporting it; calling again with the same `completedKeys` resumes where it left off.
+export async function runBatch({
+  videoUri,
+  segments,
+  completedKeys,
+  clients,
+  vad = null,
+  temp,
+  isCancelled,
+  onResult,
+  onFailure,
+  onProgress,
+}: BatchRunOptions): Promise<BatchOutcome> {
+  const started = Date.now();
+  let processedThisRun = 0;
+  let failed = 0;
+
+  const report = () => {
+    const elapsedMs = Date.now() - started;
+    const remaining = segments.length - completedKeys.size - failed;
+    onProgress({
+      completed: completedKeys.size,
+      failed,
+      total: segments.length,
+      elapsedMs,
+      etaMs: processedThisRun > 0 ? (elapsedMs / processedThisRun) * remaining : null,
+    });
+  };
+
+  report();
+  for (const segment of segments) {
+    const key = segmentKey(segment);
+    if (completedKeys.has(key)) {
+      continue;
+    }
+    if (isCancelled()) {
+      return 'cancelled';
+    }
+    try {
+      const result = await analyzeSegment(videoUri, segment, clients, { vad, temp });
+      // Cancelled while in flight: drop the result so a resume does the segment again
+      if (isCancelled()) {
+        return 'cancelled';
+      }
+      completedKeys.add(key);
+      onResult(segment, result);
+    } catch (error) {
+      if (isCancelled()) {
+        return 'cancelled';
+      }
+      failed++;
+      onFailure(segment, error);
+    }
+    processedThisRun++;
+    report();
+  }
+  return 'done';
+}
@@ -0,0 +1,139 @@
+import { Platform } from 'react-native';
+import { FFmpegKit, FFmpegKitConfig, FFprobeKit, ReturnCode } from 'ffmpeg-kit-react-native';
+
+// FFmpeg or FFprobe finished without producing the requested output
+export class MediaExtractionError extends Error {
+  constructor(message: string, readonly logs?: string) {
+    super(message);
+    this.name = 'MediaExtractionError';
+  }
+}
+
+export interface MediaInfo {
+  durationSeconds: number;
+  hasVideo: boolean;
+  hasAudio: boolean;
+}
+
+// Starts a session and waits for it to finish; aborting `signal` cancels it, which the caller sees as a
+// cancel return code
+async function complete<S extends { cancel(): Promise<void> }>(
+  start: (onComplete: () => void) => Promise<S>,
+  description: string,
+  signal?: AbortSignal,
+): Promise<S> {
+  if (signal?.aborted) {
+    throw new MediaExtractionError(`Cancelled before starting to ${description}`);
+  }
+  let finished = () => {};
+  const done = new Promise<void>(resolve => (finished = resolve));
+  const session = await start(() => finished());
+  const abort = () => {
+    session.cancel();
+  };
+  if (signal?.aborted) {
+    abort();
+  }
+  signal?.addEventListener('abort', abort);
+  try {
+    await done;
+  } finally {
+    signal?.removeEventListener('abort', abort);
+  }
+  return session;
+}
+
+const run = async (command: string, description: string, signal?: AbortSignal) => {
+  console.log('FFmpeg command =>', command);
+  const session = await complete(onComplete => FFmpegKit.executeAsync(command, onComplete), description, signal);
+  const returnCode = await session.getReturnCode();
+  if (ReturnCode.isCancel(returnCode)) {
+    throw new MediaExtractionError(`Cancelled while trying to ${description}`);
+  }
+  if (!ReturnCode.isSuccess(returnCode)) {
+    const logs = await session.getLogsAsString();
+    console.log('FFmpeg logs:\n', logs);
+    throw new MediaExtractionError(`Failed to ${description}`, logs);
+  }
+};
+
+// FFmpeg can't open content:// URIs directly; Android hands it a SAF descriptor instead
+export const ffmpegInput = async (uri: string) => {
+  if (uri.startsWith('content://') && Platform.OS === 'android') {
+    return FFmpegKitConfig.getSafParameterForRead(uri);
+  }
+  return uri.replace(/^file:\/\//, '');
+};
+
+// Duration and stream layout, read without decoding the file
+export async function probeMedia(uri: string, signal?: AbortSignal): Promise<MediaInfo> {
+  const session = await complete(
+    onComplete => FFprobeKit.getMediaInformationAsync(uri, onComplete),
+    `read ${uri}`,
+    signal,
+  );
+  if (signal?.aborted) {
+    throw new MediaExtractionError(`Cancelled while reading ${uri}`);
+  }
+  const information = session.getMediaInformation();
+  const durationSeconds = Number(information?.getDuration());
+  if (!information || !Number.isFinite(durationSeconds) || durationSeconds <= 0) {
+    throw new MediaExtractionError(`Could not read the duration of ${uri}`, await session.getLogsAsString());
+  }
+  const streams = information.getStreams() ?? [];
+  return {
+    durationSeconds,
+    hasVideo: streams.some(stream => stream.getType() === 'video'),
+    hasAudio: streams.some(stream => stream.getType() === 'audio'),
+  };
+}
+
+// Single JPEG frame at `time` seconds
+export const extractFrame = (videoUri: string, time: number, outputPath: string) =>
+  run(`-y -ss ${time} -i "${videoUri}" -vframes 1 -q:v 2 "${outputPath}"`, `extract frame at ${time.toFixed(1)}s`);
+
+// 16 kHz mono PCM WAV covering [time, time + duration)
+export const extractAudioChunk = (videoUri: string, time: number, duration: number, outputPath: string) =>
+  run(
+    `-y -ss ${time} -i "${videoUri}" -t ${duration} -vn -acodec pcm_s16le -ar 16000 -ac 1 "${outputPath}"`,
+    `extract audio at ${time.toFixed(1)}s`,
+  );
+
+// The video and audio tracks copied without re-encoding; FFmpeg stops writing once the output reaches `maxBytes`
+export const copyMediaCapped = (inputPath: string, outputPath: string, maxBytes: number, signal?: AbortSignal) =>
+  run(`-y -i "${inputPath}" -map 0:v? -map 0:a? -c copy -fs ${maxBytes} "${outputPath}"`, 'copy video', signal);
+
+// Any audio the decoder understands, as 16 kHz mono PCM WAV
+export const convertAudioToWav = (inputPath: string, outputPath: string, signal?: AbortSignal) =>
+  run(`-y -i "${inputPath}" -vn -acodec pcm_s16le -ar 16000 -ac 1 "${outputPath}"`, 'convert audio to WAV', signal);
+
+// Any still image as JPEG, shrunk to fit `maxDimension` on its longer side
+export const convertImageToJpeg = (inputPath: string, outputPath: string, maxDimension: number, signal?: AbortSignal) =>
+  run(
+    `-y -i "${inputPath}" -vf "scale='min(${maxDimension},iw)':'min(${maxDimension},ih)':force_original_aspect_ratio=decrease" -frames:v 1 -q:v 3 "${outputPath}"`,
+    'convert image to JPEG',
+    signal,
+  );
+
+// The `width` x `height` region at (`x`, `y`) of a still image, as JPEG
+export const cropImage = (
+  inputPath: string,
+  outputPath: string,
+  { x, y, width, height }: { x: number; y: number; width: number; height: number },
+) =>
+  run(
+    `-y -i "${inputPath}" -vf "crop=${width}:${height}:${x}:${y}" -frames:v 1 -q:v 2 "${outputPath}"`,
+    'crop image',
+  );
+
+// Pixel size of the first video/image stream, or null when it can't be read
+export async function probeImageSize(uri: string): Promise<{ width: number; height: number } | null> {
+  const session = await FFprobeKit.getMediaInformation(uri);
+  const stream = session
+    .getMediaInformation()
+    ?.getStreams()
+    ?.find(item => item.getType() === 'video');
+  const width = Number(stream?.getWidth());
+  const height = Number(stream?.getHeight());
+  return width > 0 && height > 0 ? { width, height } : null;
+}
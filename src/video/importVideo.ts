@@ -0,0 +1,93 @@
+import { FileSystem } from 'react-native-file-access';
+import type { TempSession } from '../storage/tempFiles';
+import { copyMediaCapped, ffmpegInput, MediaExtractionError } from './ffmpeg';
+
+// Picked videos bigger than this are refused unless Settings raises it, up to MAX_VIDEO_IMPORT_MB
+export const DEFAULT_MAX_VIDEO_IMPORT_MB = 1024;
+export const MAX_VIDEO_IMPORT_MB = 4096;
+
+// How often the copy's size is read back for progress
+const PROGRESS_POLL_MS = 250;
+
+// The picked video is over the import limit; nothing was kept. `bytes` is null when the provider
+// didn't say how big it is and the copy was stopped at the limit.
+export class VideoTooLargeError extends Error {
+  constructor(readonly bytes: number | null, readonly maxBytes: number) {
+    super(
+      bytes === null
+        ? `Video is over the ${formatMegabytes(maxBytes)} import limit`
+        : `Video is ${formatMegabytes(bytes)}, over the ${formatMegabytes(maxBytes)} import limit`,
+    );
+    this.name = 'VideoTooLargeError';
+  }
+}
+
+export interface ImportVideoOptions {
+  maxBytes: number;
+  // Size reported by the picker, when it knows one; otherwise the source is stat'ed
+  size?: number | null;
+  // Fraction copied so far, 0 to 1; only reported when the size is known
+  onProgress?: (fraction: number) => void;
+}
+
+export const formatMegabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+const sizeOf = (uri: string) =>
+  FileSystem.stat(uri).then(
+    stat => stat.size,
+    () => null,
+  );
+
+// Native copy, with progress read from the size of the copy so far
+async function copyWithProgress(uri: string, localPath: string, total: number, onProgress?: (fraction: number) => void) {
+  let finished = false;
+  const timer = setInterval(async () => {
+    const copied = await sizeOf(localPath);
+    if (!finished && copied !== null) {
+      onProgress?.(Math.min(1, copied / total));
+    }
+  }, PROGRESS_POLL_MS);
+  try {
+    await FileSystem.cp(uri, localPath);
+  } finally {
+    finished = true;
+    clearInterval(timer);
+  }
+}
+
+// Copies a picked content:// video into the session without the bytes passing through the JS heap,
+// and returns a file:// URI FFmpeg and the player can read. A known size is checked up front and the
+// file copied natively; otherwise FFmpeg copies it and stops writing at the limit, so an oversized
+// video never fills the disk.
+export async function importVideo(
+  uri: string,
+  temp: TempSession,
+  { maxBytes, size = null, onProgress }: ImportVideoOptions,
+): Promise<string> {
+  const expected = size ?? (await sizeOf(uri));
+  if (expected !== null && expected > maxBytes) {
+    throw new VideoTooLargeError(expected, maxBytes);
+  }
+
+  const localPath = await temp.file('input.mp4');
+  console.log('Copying content URI => local path:', uri, '=>', localPath);
+  try {
+    if (expected !== null) {
+      await copyWithProgress(uri, localPath, expected, onProgress);
+    } else {
+      await copyMediaCapped(await ffmpegInput(uri), localPath, maxBytes);
+      const copied = await sizeOf(localPath);
+      if (copied === null) {
+        throw new MediaExtractionError('Failed to copy video: the copy could not be read back');
+      }
+      if (copied >= maxBytes) {
+        throw new VideoTooLargeError(null, maxBytes);
+      }
+    }
+  } catch (error) {
+    await FileSystem.unlink(localPath).catch(() => {});
+    throw error;
+  }
+  onProgress?.(1);
+  return 'file://' + localPath;
+}
@@ -0,0 +1,113 @@
+import { FileSystem } from 'react-native-file-access';
+import type { EmotionClient, EmotionPrediction } from '../api/emotionClient';
+import { base64ToBytes } from '../audio/base64';
+import { detectSpeech, VadOptions, VadResult } from '../audio/vad';
+import { decodeWavSamples } from '../audio/wav';
+import { analyzeFrame } from '../faces/analyzeFrame';
+import { FaceFrame, primaryPrediction } from '../faces/faceBoxes';
+import type { Modality } from '../state/ResultsContext';
+import { tempFiles, TempSession } from '../storage/tempFiles';
+import { extractAudioChunk, extractFrame } from './ffmpeg';
+
+// Seconds between analyzed frames, and the length of each analyzed audio chunk
+export const FRAME_INTERVAL_S = 1;
+export const AUDIO_CHUNK_S = 2.5;
+
+// A span of the video to classify: one frame at `start`, or audio from `start` for `duration`
+export interface VideoSegment {
+  modality: Modality;
+  start: number;
+  duration: number;
+}
+
+// What a segment produced. Frames stand for their largest face and carry every face found;
+// `prediction` is null for a frame with no face in it and for audio with no voice in it.
+export interface SegmentResult {
+  prediction: EmotionPrediction | null;
+  faces?: FaceFrame;
+  // Audio only, when voice activity detection ran
+  voice?: VadResult;
+}
+
+export interface SegmentClients {
+  image: EmotionClient;
+  audio: EmotionClient;
+}
+
+export interface SegmentOptions {
+  // Voice activity detection for audio chunks; null sends every chunk
+  vad?: VadOptions | null;
+  // Where the extracted file goes; without one the segment gets a session of its own
+  temp?: TempSession;
+}
+
+// Extension of the file a segment is extracted to
+export const segmentExtension = (modality: Modality) => (modality === 'image' ? 'jpg' : 'wav');
+
+// Writes a segment's frame or audio chunk to `path`
+export const extractSegment = (videoUri: string, segment: VideoSegment, path: string) =>
+  segment.modality === 'image'
+    ? extractFrame(videoUri, segment.start, path)
+    : extractAudioChunk(videoUri, segment.start, segment.duration, path);
+
+async function withScratch<T>(temp: TempSession | undefined, work: (scratch: TempSession) => Promise<T>): Promise<T> {
+  const scratch = temp ?? tempFiles.create('segment');
+  try {
+    return await work(scratch);
+  } finally {
+    if (!temp) {
+      await scratch.dispose();
+    }
+  }
+}
+
+async function classify(
+  path: string,
+  modality: Modality,
+  clients: SegmentClients,
+  vad: VadOptions | null,
+  scratch: TempSession,
+): Promise<SegmentResult> {
+  if (modality === 'image') {
+    const faces = await analyzeFrame(path, clients.image, scratch);
+    return { prediction: primaryPrediction(faces), faces };
+  }
+
+  const file = { uri: `file://${path}`, type: 'audio/wav', name: 'audio_chunk.wav' };
+  if (!vad) {
+    return { prediction: await clients.audio.predictAudioChunk(file) };
+  }
+  // Already read for the voice check, so the socket can send these bytes instead of reading the file again
+  const bytes = base64ToBytes(await FileSystem.readFile(path, 'base64'));
+  const voice = detectSpeech(decodeWavSamples(bytes), vad);
+  if (!voice.speech) {
+    return { prediction: null, voice };
+  }
+  return { prediction: await clients.audio.predictAudioChunk({ ...file, bytes }), voice };
+}
+
+// Extract one segment with FFmpeg and classify it; frames are classified face by face, and
+// with `vad` set audio chunks without a voice are not sent. The extracted file is removed
+// however the segment ends.
+export function analyzeSegment(
+  videoUri: string,
+  segment: VideoSegment,
+  clients: SegmentClients,
+  { vad = null, temp }: SegmentOptions = {},
+): Promise<SegmentResult> {
+  const name = `${segment.modality === 'image' ? 'frame' : 'chunk'}_${Math.round(segment.start * 1000)}`;
+  return withScratch(temp, scratch =>
+    scratch.withFile(`${name}.${segmentExtension(segment.modality)}`, async path => {
+      await extractSegment(videoUri, segment, path);
+      return classify(path, segment.modality, clients, vad, scratch);
+    }),
+  );
+}
+
+// Classify a segment extracted earlier with `extractSegment`; the file is left where it is
+export const analyzeExtractedSegment = (
+  path: string,
+  segment: VideoSegment,
+  clients: SegmentClients,
+  { vad = null, temp }: SegmentOptions = {},
+): Promise<SegmentResult> => withScratch(temp, scratch => classify(path, segment.modality, clients, vad, scratch));